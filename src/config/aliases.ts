@@ -0,0 +1,27 @@
+/**
+ * Name Aliases
+ * 
+ * Alternative names agents and clients commonly use for venues, keyed by
+ * the normalized catalogue name (see normalizeName in utils/fuzzy.ts).
+ * Aliases are matched by the find_*_by_name tools alongside the name.
+ */
+
+export const COURSE_ALIASES: Record<string, string[]> = {
+  'the k club': ['Kildare Hotel Golf Club', 'K Club Straffan'],
+  'old head golf links': ['Old Head of Kinsale', 'Old Head Kinsale'],
+  'ballybunion golf club': ['Ballybunion Old Course', 'Ballybunion Old'],
+  'lahinch golf club': ['Lahinch Old Course', 'Lahinch Old'],
+  'royal county down golf club': ['Royal County Down', 'Newcastle Championship Links'],
+  'royal portrush golf club': ['Portrush', 'Dunluce Links'],
+  'the european club': ['European Club Brittas Bay'],
+  'waterville golf links': ['Waterville'],
+  'tralee golf club': ['Tralee Barrow'],
+  'doonbeg golf club': ['Trump Doonbeg', 'Trump International Doonbeg'],
+};
+
+export const ACCOMMODATION_ALIASES: Record<string, string[]> = {
+  'the k club': ['Kildare Hotel', 'K Club Hotel'],
+  'adare manor': ['Adare Manor Hotel'],
+  'sheen falls lodge': ['Sheen Falls Kenmare'],
+  'trump international hotel doonbeg': ['Doonbeg Lodge', 'Trump Doonbeg'],
+};
@@ -0,0 +1,94 @@
+/**
+ * Budget Tier Configuration
+ * 
+ * Green fee bands for the budget tiers used by course recommendations.
+ * Defaults can be overridden globally and per operator in the JSON file
+ * named by BUDGET_TIERS_FILE:
+ * 
+ *   {
+ *     "default": { "luxury": { "min_cents": 40000 } },
+ *     "operators": { "<operator uuid>": { "budget": { "max_cents": 12000 } } }
+ *   }
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { env } from './environment.js';
+import { logger } from '../utils/logger.js';
+
+export const BUDGET_TIERS = ['budget', 'standard', 'luxury'] as const;
+
+export type BudgetTier = typeof BUDGET_TIERS[number];
+
+/**
+ * Green fee band in cents, from min_cents up to but not including
+ * max_cents, so adjacent tiers can share a boundary; an open end has no bound
+ */
+export interface PriceRange {
+  min_cents?: number;
+  max_cents?: number;
+}
+
+const PriceRangeSchema = z.object({
+  min_cents: z.number().int().min(0).optional(),
+  max_cents: z.number().int().min(0).optional(),
+}).refine(r => r.min_cents === undefined || r.max_cents === undefined || r.min_cents < r.max_cents, {
+  message: 'min_cents must be below max_cents',
+});
+
+const TierOverridesSchema = z.object({
+  budget: PriceRangeSchema.optional(),
+  standard: PriceRangeSchema.optional(),
+  luxury: PriceRangeSchema.optional(),
+});
+
+const BudgetTiersFileSchema = z.object({
+  default: TierOverridesSchema.default({}),
+  operators: z.record(z.string().uuid(), TierOverridesSchema).default({}),
+});
+
+type BudgetTiersFile = z.infer<typeof BudgetTiersFileSchema>;
+
+/**
+ * Built-in tiers, used where the file does not override them
+ */
+const DEFAULT_BUDGET_TIERS: Record<BudgetTier, PriceRange> = {
+  budget: { max_cents: 15000 }, // Under €150
+  standard: { min_cents: 15000, max_cents: 35000 }, // €150 to under €350
+  luxury: { min_cents: 35000 }, // €350+
+};
+
+let tiersFile: BudgetTiersFile | null = null;
+
+/**
+ * Load tier overrides from BUDGET_TIERS_FILE (cached after first load)
+ */
+export function loadBudgetTiers(): BudgetTiersFile {
+  if (tiersFile) return tiersFile;
+  
+  if (!env.BUDGET_TIERS_FILE) {
+    tiersFile = { default: {}, operators: {} };
+    return tiersFile;
+  }
+  
+  const raw = JSON.parse(readFileSync(env.BUDGET_TIERS_FILE, 'utf8'));
+  tiersFile = BudgetTiersFileSchema.parse(raw);
+  
+  logger.info('Budget tiers loaded', {
+    file: env.BUDGET_TIERS_FILE,
+    operators: Object.keys(tiersFile.operators).length,
+  });
+  
+  return tiersFile;
+}
+
+/**
+ * Price range of a budget tier, applying the operator's overrides if any
+ */
+export function getBudgetTier(tier: BudgetTier, operatorId?: string): PriceRange {
+  const file = loadBudgetTiers();
+  
+  return (operatorId ? file.operators[operatorId]?.[tier] : undefined)
+    ?? file.default[tier]
+    ?? DEFAULT_BUDGET_TIERS[tier];
+}
@@ -18,6 +18,25 @@ const environmentSchema = z.object({
   
   // Authentication
   MCP_API_KEY: z.string().min(32).optional(),
+  API_KEYS_FILE: z.string().optional(),
+  
+  // Recommendations
+  BUDGET_TIERS_FILE: z.string().optional(),
+  
+  // Currency conversion
+  FX_RATES_FILE: z.string().optional(),
+  FX_REFRESH_INTERVAL_MS: z.coerce.number().default(60_000),
+  
+  // Supplier availability (stub provider data)
+  TEE_TIMES_FILE: z.string().optional(),
+  ROOM_INVENTORY_FILE: z.string().optional(),
+  
+  // Holds
+  HOLD_STORE: z.enum(['memory', 'database']).default('memory'),
+  HOLD_SWEEP_INTERVAL_MS: z.coerce.number().default(60_000),
+  
+  // MCP sessions
+  MCP_SESSION_IDLE_TIMEOUT_MS: z.coerce.number().default(30 * 60 * 1000),
   
   // Redis (optional)
   REDIS_URL: z.string().url().optional(),
@@ -54,3 +73,8 @@ export function loadEnvironment(): Environment {
 
 export const env = loadEnvironment();
 
+/**
+ * Running as a local stdio MCP server (`--stdio`) rather than over HTTP
+ */
+export const isStdioMode = process.argv.includes('--stdio');
+
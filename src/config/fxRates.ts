@@ -0,0 +1,92 @@
+/**
+ * FX Rate Configuration
+ * 
+ * Exchange rates from the base currency that prices are stored in (EUR),
+ * read from the JSON file named by FX_RATES_FILE:
+ * 
+ *   { "as_of": "2026-10-01", "rates": { "USD": 1.09, "GBP": 0.86 } }
+ * 
+ * Each rate is units of the currency per 1 EUR. The file is re-read when it
+ * changes (checked at most every FX_REFRESH_INTERVAL_MS), so rates can be
+ * updated without a restart; an invalid update is logged and the previous
+ * rates are kept.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { z } from 'zod';
+import { env } from './environment.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Currency prices are stored in
+ */
+export const BASE_CURRENCY = 'EUR';
+
+const FxRatesFileSchema = z.object({
+  as_of: z.string().optional(),
+  rates: z.record(z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code'), z.number().positive()),
+});
+
+/**
+ * Exchange rates from the base currency
+ */
+export interface FxTable {
+  as_of?: string;
+  rates: Record<string, number>;
+}
+
+let fxTable: FxTable | null = null;
+let loadedMtimeMs = 0;
+let checkedAt = 0;
+
+function readFxFile(file: string): FxTable {
+  const parsed = FxRatesFileSchema.parse(JSON.parse(readFileSync(file, 'utf8')));
+  return { as_of: parsed.as_of, rates: { ...parsed.rates, [BASE_CURRENCY]: 1 } };
+}
+
+/**
+ * Load FX rates from FX_RATES_FILE (cached after first load)
+ */
+export function loadFxRates(): FxTable {
+  if (fxTable) return fxTable;
+  
+  checkedAt = Date.now();
+  if (!env.FX_RATES_FILE) {
+    fxTable = { rates: { [BASE_CURRENCY]: 1 } };
+    return fxTable;
+  }
+  
+  loadedMtimeMs = statSync(env.FX_RATES_FILE).mtimeMs;
+  fxTable = readFxFile(env.FX_RATES_FILE);
+  
+  logger.info('FX rates loaded', {
+    file: env.FX_RATES_FILE,
+    currencies: Object.keys(fxTable.rates).length,
+    as_of: fxTable.as_of,
+  });
+  
+  return fxTable;
+}
+
+/**
+ * Current FX rates, re-reading FX_RATES_FILE if it has changed
+ */
+export function getFxTable(): FxTable {
+  const table = loadFxRates();
+  const file = env.FX_RATES_FILE;
+  if (!file || Date.now() - checkedAt < env.FX_REFRESH_INTERVAL_MS) return table;
+  
+  checkedAt = Date.now();
+  try {
+    const mtimeMs = statSync(file).mtimeMs;
+    if (mtimeMs !== loadedMtimeMs) {
+      fxTable = readFxFile(file);
+      loadedMtimeMs = mtimeMs;
+      logger.info('FX rates refreshed', { file, as_of: fxTable.as_of });
+    }
+  } catch (error) {
+    logger.warn('Failed to refresh FX rates; keeping previous rates', { file, error });
+  }
+  
+  return fxTable!;
+}
@@ -2,18 +2,24 @@
  * Main Entry Point
  * 
  * Fareway Database MCP Server
+ * 
+ * Runs as an HTTP server by default, or as a local stdio MCP server with `--stdio`.
  */
 
 import 'dotenv/config';
-import { app } from './server.js';
-import { env } from './config/environment.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { env, isStdioMode } from './config/environment.js';
 import { logger } from './utils/logger.js';
-import { testDatabaseConnection } from './utils/database.js';
+import { testDatabaseConnection, closeDatabaseConnections } from './utils/database.js';
+import { closeCache } from './utils/cache.js';
+import { startHoldSweeper } from './utils/holds.js';
+import { createMcpServer } from './mcp.js';
 
 async function start() {
   logger.info('🚀 Starting Fareway Database MCP Server', {
     environment: env.NODE_ENV,
-    port: env.PORT,
+    transport: isStdioMode ? 'stdio' : 'http',
+    port: isStdioMode ? undefined : env.PORT,
   });
   
   // Test database connection
@@ -23,18 +29,61 @@ async function start() {
     process.exit(1);
   }
   
-  // Start HTTP server
+  if (isStdioMode) {
+    await startStdio();
+  } else {
+    await startHttp();
+  }
+}
+
+/**
+ * Start HTTP server (Streamable HTTP, SSE and REST)
+ */
+async function startHttp() {
+  // Imported lazily so stdio mode never builds the Express app
+  const { app } = await import('./server.js');
+  
   app.listen(env.PORT, () => {
     logger.info(`✅ Server running on port ${env.PORT}`, {
       health_check: `http://localhost:${env.PORT}/health`,
-      mcp_endpoint: `http://localhost:${env.PORT}/sse`,
+      mcp_endpoint: `http://localhost:${env.PORT}/mcp`,
+      mcp_sse_endpoint: `http://localhost:${env.PORT}/sse`,
       api_endpoint: `http://localhost:${env.PORT}/api/tools`,
     });
   });
 }
 
+/**
+ * Start stdio MCP server for local desktop clients
+ */
+async function startStdio() {
+  const server = createMcpServer();
+  const transport = new StdioServerTransport();
+  const holdSweeper = startHoldSweeper();
+  
+  let shuttingDown = false;
+  const shutdown = async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info('Shutting down stdio server...');
+    
+    clearInterval(holdSweeper);
+    await server.close();
+    await closeDatabaseConnections();
+    await closeCache();
+    
+    process.exit(0);
+  };
+  
+  process.stdin.on('close', shutdown);
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+  
+  await server.connect(transport);
+  logger.info('✅ MCP server running on stdio');
+}
+
 start().catch((error) => {
   logger.error('Failed to start server', { error });
   process.exit(1);
 });
-
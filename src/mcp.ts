@@ -0,0 +1,90 @@
+/**
+ * MCP Server Factory
+ * 
+ * Builds MCP protocol servers wired to the tool registry. Each transport
+ * session gets its own server instance so concurrent agents never share
+ * protocol state.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { logToolExecution } from './utils/logger.js';
+import { NotFoundError, toToolError } from './utils/errors.js';
+import { toolContextFromAuth } from './utils/auth.js';
+import { getTool, listTools } from './tools/index.js';
+
+/**
+ * Create a new MCP server with all tool handlers registered
+ */
+export function createMcpServer(): Server {
+  const mcpServer = new Server(
+    {
+      name: 'fareway-database-server',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+  
+  // Register MCP tool handlers
+  mcpServer.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    return {
+      tools: listTools(toolContextFromAuth(extra.authInfo)),
+    };
+  });
+  
+  mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const startTime = Date.now();
+    
+    try {
+      const tool = getTool(name);
+      if (!tool) {
+        throw new NotFoundError('Tool', name);
+      }
+      
+      // Validate and execute tool
+      const result = await tool.execute(args, toolContextFromAuth(extra.authInfo));
+      
+      const duration = Date.now() - startTime;
+      logToolExecution(name, duration, result.success, {
+        args_keys: Object.keys(args || {}),
+        code: result.code,
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: { ...result },
+        ...(result.success ? {} : { isError: true }),
+      };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logToolExecution(name, duration, false);
+      const payload = toToolError(error, { tool: name, args }).toJSON();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(payload, null, 2),
+          },
+        ],
+        structuredContent: payload,
+        isError: true,
+      };
+    }
+  });
+  
+  return mcpServer;
+}
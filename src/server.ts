@@ -2,43 +2,84 @@
  * HTTP Server with MCP Protocol Support
  * 
  * Production-grade Express server with:
- * - MCP protocol via SSE
+ * - MCP protocol via Streamable HTTP and legacy SSE
  * - REST API for direct tool access
  * - Authentication & rate limiting
  * - Health checks & monitoring
  */
 
+import { createHash, randomUUID } from 'node:crypto';
 import express from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 
 import { env } from './config/environment.js';
+import { loadBudgetTiers } from './config/budgetTiers.js';
+import { loadFxRates } from './config/fxRates.js';
+import { getTeeTimeProvider } from './utils/teeTimes.js';
+import { getRoomInventoryProvider } from './utils/roomInventory.js';
+import { startHoldSweeper } from './utils/holds.js';
 import { logger, logToolExecution, logError } from './utils/logger.js';
 import { testDatabaseConnection, closeDatabaseConnections } from './utils/database.js';
 import { closeCache } from './utils/cache.js';
-import { tools, getTool, listTools } from './tools/index.js';
+import { InMemoryEventStore } from './utils/eventStore.js';
+import {
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError,
+  httpStatusFor,
+  toToolError,
+} from './utils/errors.js';
+import { getTool, listTools } from './tools/index.js';
+import { exportRateSheet, importRateSheet } from './tools/rateManagement.js';
+import { createMcpServer } from './mcp.js';
+import {
+  authenticateApiKey,
+  isAuthEnabled,
+  loadApiKeys,
+  toAuthInfo,
+  toolContextFromAuth,
+} from './utils/auth.js';
+
+/**
+ * Request authenticated by authMiddleware; `auth` is read by the MCP transports
+ */
+type AuthenticatedRequest = express.Request & { auth?: AuthInfo };
+
+// Fail fast on malformed API keys, budget tier, FX rate or stub supplier files
+loadApiKeys();
+loadBudgetTiers();
+loadFxRates();
+getTeeTimeProvider();
+getRoomInventoryProvider();
 
 const app = express();
 
 // Middleware
 app.use(helmet());
-app.use(cors());
+app.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
 app.use(express.json());
 
 // Rate limiting
 const limiter = rateLimit({
   windowMs: env.RATE_LIMIT_WINDOW_MS,
   max: env.RATE_LIMIT_MAX_REQUESTS,
-  message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  handler: (_req, res) => {
+    const error = new RateLimitedError(
+      'Too many requests from this IP, please try again later.',
+      Math.ceil(env.RATE_LIMIT_WINDOW_MS / 1000)
+    );
+    res.status(error.status).json(error.toJSON());
+  },
 });
 
 app.use('/api', limiter);
@@ -53,99 +94,109 @@ app.use((req, _res, next) => {
   next();
 });
 
-// Auth middleware for API routes (optional if MCP_API_KEY is set)
-function authMiddleware(req: express.Request, res: express.Response, next: express.NextFunction) {
-  if (!env.MCP_API_KEY) {
-    return next(); // No auth required if API key not configured
+// Auth middleware for MCP and API routes (optional if no API keys are configured)
+function authMiddleware(req: AuthenticatedRequest, res: express.Response, next: express.NextFunction) {
+  if (!isAuthEnabled()) {
+    return next(); // No auth required if API keys not configured
   }
   
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'Missing or invalid authorization header' });
+    const error = new UnauthorizedError();
+    return res.status(error.status).json(error.toJSON());
   }
   
   const token = authHeader.substring(7);
-  if (token !== env.MCP_API_KEY) {
-    return res.status(403).json({ error: 'Invalid API key' });
+  const principal = authenticateApiKey(token);
+  if (!principal) {
+    const error = new UnauthorizedError('Invalid API key');
+    return res.status(error.status).json(error.toJSON());
   }
   
+  req.auth = toAuthInfo(token, principal);
   next();
 }
 
-// Create MCP server
-const mcpServer = new Server(
-  {
-    name: 'fareway-database-server',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+// Active SSE sessions, keyed by transport session ID
+interface SseSession {
+  transport: SSEServerTransport;
+  server: Server;
+  /** API key that opened the session (undefined when auth is disabled) */
+  clientId: string | undefined;
+}
 
-// Register MCP tool handlers
-mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: listTools().map(t => ({
-      name: t.name,
-      description: t.description,
-      inputSchema: {
-        type: 'object',
-        properties: t.inputSchema.shape || {},
-        required: Object.keys(t.inputSchema.shape || {}),
-      },
-    })),
-  };
-});
+const sseSessions = new Map<string, SseSession>();
 
-mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const startTime = Date.now();
+// Active Streamable HTTP sessions, keyed by Mcp-Session-Id
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  eventStore: InMemoryEventStore;
+  /** API key that initialized the session (undefined when auth is disabled) */
+  clientId: string | undefined;
+  lastSeenAt: number;
+}
+
+const streamableSessions = new Map<string, StreamableSession>();
+
+/**
+ * A session, if it exists and was opened with the requesting API key
+ * 
+ * Session IDs are bearer secrets for the session's stream and replayed
+ * events, so another key presenting one is treated as if it did not exist.
+ */
+function ownedSession<T extends { clientId: string | undefined }>(
+  sessions: Map<string, T>,
+  sessionId: string,
+  req: AuthenticatedRequest
+): T | undefined {
+  const session = sessions.get(sessionId);
+  return session && session.clientId === req.auth?.clientId ? session : undefined;
+}
+
+/**
+ * Stand-in for a session ID in logs, which must not reveal the ID itself
+ */
+function sessionRef(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex').slice(0, 12);
+}
+
+/**
+ * Tear down a Streamable HTTP session and release its resources
+ */
+async function closeStreamableSession(sessionId: string): Promise<void> {
+  const session = streamableSessions.get(sessionId);
+  if (!session) return;
+  
+  streamableSessions.delete(sessionId);
+  session.eventStore.clear();
   
   try {
-    const tool = getTool(name);
-    if (!tool) {
-      throw new Error(`Unknown tool: ${name}`);
-    }
-    
-    // Validate and execute tool
-    const validatedArgs = tool.inputSchema.parse(args);
-    const result = await tool.execute(validatedArgs);
-    
-    const duration = Date.now() - startTime;
-    logToolExecution(name, duration, result.success, {
-      args_keys: Object.keys(args || {}),
-    });
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    await session.server.close();
   } catch (error) {
-    const duration = Date.now() - startTime;
-    logToolExecution(name, duration, false);
-    logError(error as Error, { tool: name, args });
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-          }, null, 2),
-        },
-      ],
-      isError: true,
-    };
+    logger.warn('Failed to close MCP server', { session_ref: sessionRef(sessionId), error });
   }
-});
+  
+  logger.info('MCP session closed', {
+    session_ref: sessionRef(sessionId),
+    client_id: session.clientId,
+    active_sessions: streamableSessions.size,
+  });
+}
+
+// Expire idle Streamable HTTP sessions
+const sessionSweeper = setInterval(() => {
+  const cutoff = Date.now() - env.MCP_SESSION_IDLE_TIMEOUT_MS;
+  for (const [sessionId, session] of streamableSessions) {
+    if (session.lastSeenAt < cutoff) {
+      void closeStreamableSession(sessionId);
+    }
+  }
+}, 60_000);
+sessionSweeper.unref();
+
+// Expire lapsed booking holds
+const holdSweeper = startHoldSweeper();
 
 // Health check endpoint
 app.get('/health', async (_req, res) => {
@@ -160,53 +211,218 @@ app.get('/health', async (_req, res) => {
   });
 });
 
-// MCP SSE endpoint
-app.get('/sse', authMiddleware, async (_req, res) => {
-  logger.info('SSE connection established');
+// MCP Streamable HTTP endpoint - initialize and client-to-server messages
+app.post('/mcp', authMiddleware, async (req: AuthenticatedRequest, res): Promise<void> => {
+  const sessionId = req.header('mcp-session-id');
+  
+  if (sessionId) {
+    const session = ownedSession(streamableSessions, sessionId, req);
+    if (!session) {
+      res.status(404).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: `Unknown session '${sessionId}'` },
+        id: null,
+      });
+      return;
+    }
+    
+    session.lastSeenAt = Date.now();
+    await session.transport.handleRequest(req, res, req.body);
+    return;
+  }
+  
+  if (!isInitializeRequest(req.body)) {
+    res.status(400).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Missing Mcp-Session-Id header on non-initialize request' },
+      id: null,
+    });
+    return;
+  }
+  
+  const server = createMcpServer();
+  const eventStore = new InMemoryEventStore();
+  const clientId = req.auth?.clientId;
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore,
+    onsessioninitialized: (newSessionId) => {
+      streamableSessions.set(newSessionId, {
+        transport,
+        server,
+        eventStore,
+        clientId,
+        lastSeenAt: Date.now(),
+      });
+      logger.info('MCP session initialized', {
+        session_ref: sessionRef(newSessionId),
+        client_id: clientId,
+        active_sessions: streamableSessions.size,
+      });
+    },
+    onsessionclosed: (closedSessionId) => closeStreamableSession(closedSessionId),
+  });
+  
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      void closeStreamableSession(transport.sessionId);
+    }
+  };
+  
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+});
+
+// MCP Streamable HTTP endpoint - server-to-client SSE stream (resumable via Last-Event-ID)
+// and explicit session termination
+const handleStreamableSessionRequest = async (
+  req: AuthenticatedRequest,
+  res: express.Response
+): Promise<void> => {
+  const sessionId = req.header('mcp-session-id');
+  const session = sessionId ? ownedSession(streamableSessions, sessionId, req) : undefined;
   
+  if (!session) {
+    res.status(sessionId ? 404 : 400).json({
+      jsonrpc: '2.0',
+      error: {
+        code: sessionId ? -32001 : -32000,
+        message: sessionId ? `Unknown session '${sessionId}'` : 'Missing Mcp-Session-Id header',
+      },
+      id: null,
+    });
+    return;
+  }
+  
+  session.lastSeenAt = Date.now();
+  await session.transport.handleRequest(req, res);
+};
+
+app.get('/mcp', authMiddleware, handleStreamableSessionRequest);
+app.delete('/mcp', authMiddleware, handleStreamableSessionRequest);
+
+// MCP SSE endpoint (legacy transport) - one MCP server per connected client
+app.get('/sse', authMiddleware, async (req: AuthenticatedRequest, res) => {
   const transport = new SSEServerTransport('/messages', res);
-  await mcpServer.connect(transport);
+  const server = createMcpServer();
+  const { sessionId } = transport;
+  const clientId = req.auth?.clientId;
+  
+  sseSessions.set(sessionId, { transport, server, clientId });
+  logger.info('SSE connection established', {
+    session_ref: sessionRef(sessionId),
+    client_id: clientId,
+    active_sessions: sseSessions.size,
+  });
+  
+  res.on('close', () => {
+    sseSessions.delete(sessionId);
+    server.close().catch((error) => {
+      logger.warn('Failed to close MCP server', { session_ref: sessionRef(sessionId), error });
+    });
+    logger.info('SSE connection closed', {
+      session_ref: sessionRef(sessionId),
+      client_id: clientId,
+      active_sessions: sseSessions.size,
+    });
+  });
+  
+  await server.connect(transport);
+});
+
+// MCP message endpoint - client-to-server messages for an SSE session
+app.post('/messages', authMiddleware, async (req: AuthenticatedRequest, res): Promise<void> => {
+  const sessionId = req.query.sessionId;
+  if (typeof sessionId !== 'string' || !sessionId) {
+    res.status(400).json({ error: 'Missing sessionId query parameter' });
+    return;
+  }
+  
+  const session = ownedSession(sseSessions, sessionId, req);
+  if (!session) {
+    res.status(404).json({ error: `Unknown session '${sessionId}'` });
+    return;
+  }
+  
+  await session.transport.handlePostMessage(req, res, req.body);
 });
 
 // REST API endpoints for direct tool access (for testing/debugging)
-app.post('/api/tools/:toolName', authMiddleware, async (req, res): Promise<void> => {
+app.post('/api/tools/:toolName', authMiddleware, async (req: AuthenticatedRequest, res): Promise<void> => {
   const { toolName } = req.params;
   const startTime = Date.now();
   
   try {
     const tool = getTool(toolName);
     if (!tool) {
-      res.status(404).json({
-        success: false,
-        error: `Tool '${toolName}' not found`,
-      });
+      const error = new NotFoundError('Tool', toolName);
+      res.status(error.status).json(error.toJSON());
       return;
     }
     
-    const validatedArgs = tool.inputSchema.parse(req.body);
-    const result = await tool.execute(validatedArgs);
+    const result = await tool.execute(req.body, toolContextFromAuth(req.auth));
     
     const duration = Date.now() - startTime;
-    logToolExecution(toolName, duration, result.success);
+    logToolExecution(toolName, duration, result.success, {
+      code: result.code,
+    });
     
-    res.json(result);
+    res.status(result.success ? 200 : httpStatusFor(result.code)).json(result);
   } catch (error) {
     const duration = Date.now() - startTime;
     logToolExecution(toolName, duration, false);
-    logError(error as Error, { tool: toolName, body: req.body });
+    const toolError = toToolError(error, { tool: toolName, body: req.body });
+    res.status(toolError.status).json(toolError.toJSON());
+  }
+});
+
+// Rate sheet upload: the CSV is the request body, options are query parameters
+app.post(
+  '/api/rate-sheets/import',
+  authMiddleware,
+  express.text({ type: ['text/csv', 'text/plain', 'application/vnd.ms-excel'], limit: '1mb' }),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+    const minScore = query('min_match_score');
     
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
+    const result = await importRateSheet.execute({
+      csv: typeof req.body === 'string' ? req.body : '',
+      operator_id: query('operator_id'),
+      currency: query('currency'),
+      min_match_score: minScore === undefined ? undefined : Number(minScore),
+      apply: query('apply') === 'true',
+    }, toolContextFromAuth(req.auth));
+    
+    res.status(result.success ? 200 : httpStatusFor(result.code)).json(result);
   }
+);
+
+// Rate sheet download as a CSV attachment
+app.get('/api/rate-sheets/export', authMiddleware, async (req: AuthenticatedRequest, res): Promise<void> => {
+  const result = await exportRateSheet.execute({
+    operator_id: typeof req.query.operator_id === 'string' ? req.query.operator_id : undefined,
+    currency: typeof req.query.currency === 'string' ? req.query.currency : undefined,
+  }, toolContextFromAuth(req.auth));
+  
+  const sheet = result.data;
+  if (!result.success || !sheet) {
+    res.status(httpStatusFor(result.code)).json(result);
+    return;
+  }
+  
+  res
+    .type('text/csv')
+    .attachment(sheet.filename)
+    .send(sheet.csv);
 });
 
-// List all available tools
-app.get('/api/tools', authMiddleware, (_req, res) => {
+// List the tools available to the caller
+app.get('/api/tools', authMiddleware, (req: AuthenticatedRequest, res) => {
+  const available = listTools(toolContextFromAuth(req.auth));
+  
   res.json({
-    tools: listTools(),
-    count: tools.length,
+    tools: available,
+    count: available.length,
   });
 });
 
@@ -216,22 +432,37 @@ app.use((_req, res) => {
     error: 'Not found',
     available_endpoints: [
       'GET /health',
+      'POST /mcp',
+      'GET /mcp',
+      'DELETE /mcp',
       'GET /sse',
+      'POST /messages?sessionId=',
       'GET /api/tools',
       'POST /api/tools/:toolName',
+      'POST /api/rate-sheets/import',
+      'GET /api/rate-sheets/export',
     ],
   });
 });
 
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  // Malformed JSON bodies are the caller's fault, not ours
+  if ((err as Error & { type?: string }).type === 'entity.parse.failed') {
+    const error = new ValidationError('Malformed JSON request body');
+    res.status(error.status).json(error.toJSON());
+    return;
+  }
+  
   logError(err, {
     path: req.path,
     method: req.method,
   });
   
   res.status(500).json({
+    success: false,
     error: 'Internal server error',
+    code: 'internal',
     message: env.NODE_ENV === 'development' ? err.message : undefined,
   });
 });
@@ -240,6 +471,17 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
 async function shutdown() {
   logger.info('Shutting down gracefully...');
   
+  for (const { server } of sseSessions.values()) {
+    await server.close();
+  }
+  sseSessions.clear();
+  
+  clearInterval(sessionSweeper);
+  clearInterval(holdSweeper);
+  for (const sessionId of [...streamableSessions.keys()]) {
+    await closeStreamableSession(sessionId);
+  }
+  
   await closeDatabaseConnections();
   await closeCache();
   
@@ -4,192 +4,309 @@
  * MCP tools for searching and retrieving accommodation information
  */
 
-import { getSupabaseClient } from '../utils/database.js';
-import { getCached, setCached } from '../utils/cache.js';
-import { logger } from '../utils/logger.js';
-import type {
-  SearchAccommodationsParams,
-  GetAccommodationDetailsParams,
-  ToolResult,
+import { z } from 'zod';
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { NotFoundError } from '../utils/errors.js';
+import { requireScope, resolveOperatorId } from '../utils/auth.js';
+import { annotateEffectivePrices, today } from '../utils/pricing.js';
+import { fetchLocation, rankByDistance } from '../utils/geo.js';
+import { decodeCursor, pageInfo, paginate } from '../utils/pagination.js';
+import { rankByName } from '../utils/fuzzy.js';
+import { getPriceConverter } from '../utils/currency.js';
+import type { PriceConverter } from '../utils/currency.js';
+import { ACCOMMODATION_ALIASES } from '../config/aliases.js';
+import { applySort, compareBySort, describeSort, resolveSort } from '../utils/sorting.js';
+import { defineTool } from './define.js';
+import {
+  SearchAccommodationsSchema,
+  GetAccommodationDetailsSchema,
+  GetGolfResortsSchema,
+  FindAccommodationByNameSchema,
+  AccommodationSummarySchema,
+  AccommodationDetailSchema,
+  AccommodationMatchSchema,
 } from '../types/tools.js';
+import type { AccommodationFacets, SearchAccommodationsParams } from '../types/tools.js';
 
 /**
  * Search for accommodations
  */
-export async function searchAccommodations(
-  params: SearchAccommodationsParams
-): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
-    const cacheKey = `accommodations:search:${JSON.stringify(params)}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
-    }
-    
+export const searchAccommodations = defineTool({
+  name: 'search_accommodations',
+  description: 'Search for hotels and accommodations by region, type, rating, amenities, and price range, or near a golf course (with distance_km). Returns facet counts by type, region, amenity and price band in metadata.',
+  scope: 'catalogue',
+  inputSchema: SearchAccommodationsSchema,
+  outputSchema: z.array(AccommodationSummarySchema),
+  cache: {
+    // Effective prices depend on the caller's operator and current rates
+    key: (params) => params.include_effective_price
+      ? undefined
+      : `accommodations:search:${JSON.stringify(params)}`,
+  },
+  handler: async (params, context) => {
     const supabase = getSupabaseClient();
-    let query = supabase
-      .from('accommodations')
-      .select(`
-        id,
-        name,
-        type,
-        region,
-        rating,
-        standard_rate_cents,
-        description,
-        amenities,
-        location
-      `);
+    const query = applyAccommodationFilters(
+      supabase
+        .from('accommodations')
+        .select(`
+          id,
+          name,
+          type,
+          region,
+          rating,
+          standard_rate_cents,
+          description,
+          amenities,
+          location
+        `),
+      params
+    );
     
-    if (params.region) {
-      query = query.ilike('region', `%${params.region}%`);
-    }
+    // Facets count every match, not just the returned page, and so also
+    // provide the total for pagination
+    const facetQuery = applyAccommodationFilters(
+      supabase
+        .from('accommodations')
+        .select('type, region, amenities, standard_rate_cents, location'),
+      params
+    );
     
-    if (params.min_price_cents) {
-      query = query.gte('standard_rate_cents', params.min_price_cents);
-    }
-    
-    if (params.max_price_cents) {
-      query = query.lte('standard_rate_cents', params.max_price_cents);
-    }
-    
-    query = query.limit(params.limit || 20);
-    query = query.order('rating', { ascending: false });
+    // Proximity search and orders on names sort every match in process,
+    // so the page is cut after sorting rather than in the query
+    const limit = params.limit;
+    const offset = decodeCursor(params.cursor, params);
+    const origin = params.near_course_id
+      ? await fetchLocation('golf_courses', params.near_course_id)
+      : undefined;
+    const sort = resolveSort(params.sort_by, {
+      priceColumn: 'standard_rate_cents',
+      hasOrigin: origin !== undefined,
+    });
+    const inMemory = origin !== undefined || sort.inMemory;
+    const [rowsResponse, facetResponse] = await Promise.all([
+      inMemory ? query : applySort(query, sort).range(offset, offset + limit - 1),
+      facetQuery,
+    ]);
+    const rows = unwrapQuery(rowsResponse) ?? [];
+    const facetRows = unwrapQuery(facetResponse) ?? [];
     
-    const { data, error } = await query;
+    const data = inMemory
+      ? (origin ? rankByDistance(rows, origin, params.radius_km) : rows)
+        .sort(compareBySort(sort))
+        .slice(offset, offset + limit)
+      : rows;
+    const facets = buildAccommodationFacets(
+      origin ? rankByDistance(facetRows, origin, params.radius_km) : facetRows,
+      getPriceConverter(params.currency)
+    );
+    const metadata = {
+      facets,
+      sort: describeSort(sort),
+      ...pageInfo(params, offset, data.length, facets.total),
+    };
     
-    if (error) {
-      logger.error('searchAccommodations failed', { error, params });
+    if (params.include_effective_price) {
+      requireScope(context, 'rates', 'include_effective_price');
       return {
-        success: false,
-        error: `Database error: ${error.message}`,
+        data: await annotateEffectivePrices(
+          data,
+          row => row.standard_rate_cents,
+          resolveOperatorId(params.operator_id, context),
+          params.price_date ?? today()
+        ),
+        metadata,
       };
     }
     
-    await setCached(cacheKey, data);
-    
-    const duration = Date.now() - startTime;
-    logger.info('searchAccommodations completed', {
-      params,
-      results_count: data?.length || 0,
-      duration_ms: duration,
-    });
-    
-    return {
-      success: true,
-      data: data || [],
-      metadata: {
-        count: data?.length || 0,
-        duration_ms: duration,
-      },
-    };
-  } catch (error) {
-    logger.error('searchAccommodations exception', { error, params });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    return { data, metadata };
+  },
+});
+
+/**
+ * Nightly price bands used for facet counts (in cents of the requested
+ * currency)
+ */
+const PRICE_BANDS = [
+  { label: 'under_100', max: 10000 },
+  { label: '100_200', min: 10000, max: 20000 },
+  { label: '200_350', min: 20000, max: 35000 },
+  { label: '350_500', min: 35000, max: 50000 },
+  { label: '500_plus', min: 50000 },
+] as const;
+
+/**
+ * Query builder methods used by the accommodation filters
+ */
+interface FilterableQuery<Q> {
+  ilike(column: string, pattern: string): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  contains(column: string, value: string[]): Q;
+}
+
+/**
+ * Apply the search filters shared by the result and facet queries
+ */
+function applyAccommodationFilters<Q extends FilterableQuery<Q>>(
+  query: Q,
+  params: SearchAccommodationsParams
+): Q {
+  if (params.region) {
+    query = query.ilike('region', `%${params.region}%`);
+  }
+  
+  if (params.type) {
+    query = query.ilike('type', escapeLikePattern(params.type));
+  }
+  
+  if (params.min_rating !== undefined) {
+    query = query.gte('rating', params.min_rating);
   }
+  
+  if (params.min_price_cents) {
+    query = query.gte('standard_rate_cents', params.min_price_cents);
+  }
+  
+  if (params.max_price_cents) {
+    query = query.lte('standard_rate_cents', params.max_price_cents);
+  }
+  
+  if (params.amenities && params.amenities.length > 0) {
+    query = query.contains('amenities', params.amenities);
+  }
+  
+  return query;
 }
 
 /**
- * Get detailed accommodation information
+ * Escape the LIKE wildcards in a value so ilike matches it literally
+ * (ignoring case)
  */
-export async function getAccommodationDetails(
-  params: GetAccommodationDetailsParams
-): Promise<ToolResult> {
-  const startTime = Date.now();
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Count matching accommodations by type, region, amenity and price band
+ */
+function buildAccommodationFacets(
+  rows: Array<{ type: string | null; region: string | null; amenities: unknown; standard_rate_cents: number | null }>,
+  prices: PriceConverter
+): AccommodationFacets {
+  const facets: AccommodationFacets = { total: rows.length, type: {}, region: {}, amenity: {}, price_band: {} };
+  const increment = (counts: Record<string, number>, key: string) => {
+    counts[key] = (counts[key] ?? 0) + 1;
+  };
   
-  try {
-    const cacheKey = `accommodation:details:${params.accommodation_id}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
-    }
+  for (const row of rows) {
+    increment(facets.type, row.type ?? 'unknown');
+    increment(facets.region, row.region ?? 'unknown');
     
-    const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-      .from('accommodations')
-      .select('*')
-      .eq('id', params.accommodation_id)
-      .single();
-    
-    if (error) {
-      logger.error('getAccommodationDetails failed', { error, params });
-      return {
-        success: false,
-        error: `Accommodation not found or database error: ${error.message}`,
-      };
+    if (Array.isArray(row.amenities)) {
+      for (const amenity of new Set(row.amenities.map(a => String(a).trim()))) {
+        increment(facets.amenity, amenity);
+      }
     }
     
-    await setCached(cacheKey, data);
-    
-    const duration = Date.now() - startTime;
-    return {
-      success: true,
-      data,
-      metadata: { duration_ms: duration },
-    };
-  } catch (error) {
-    logger.error('getAccommodationDetails exception', { error, params });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    const price = row.standard_rate_cents == null || !Number.isFinite(row.standard_rate_cents)
+      ? null
+      : prices.fromBase(row.standard_rate_cents);
+    const band = price === null
+      ? undefined
+      : PRICE_BANDS.find(b => (!('min' in b) || price >= b.min) && (!('max' in b) || price < b.max));
+    increment(facets.price_band, band?.label ?? 'unpriced');
   }
+  
+  return facets;
 }
 
 /**
- * Get golf resorts (accommodations with on-site courses)
+ * Get detailed accommodation information
  */
-export async function getGolfResorts(region?: string): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
-    const cacheKey = `resorts:${region || 'all'}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
+export const getAccommodationDetails = defineTool({
+  name: 'get_accommodation_details',
+  description: 'Get detailed information about a specific accommodation including rooms, amenities, and rates.',
+  scope: 'catalogue',
+  inputSchema: GetAccommodationDetailsSchema,
+  outputSchema: AccommodationDetailSchema,
+  cache: { key: (params) => `accommodation:details:${params.accommodation_id}` },
+  handler: async (params) => {
+    const supabase = getSupabaseClient();
+    const data = unwrapQuery(
+      await supabase
+        .from('accommodations')
+        .select('*')
+        .eq('id', params.accommodation_id)
+        .maybeSingle()
+    );
+    
+    if (!data) {
+      throw new NotFoundError('Accommodation', params.accommodation_id);
     }
     
+    return { data };
+  },
+});
+
+/**
+ * Get golf resorts (accommodations with on-site courses)
+ */
+export const getGolfResorts = defineTool({
+  name: 'get_golf_resorts',
+  description: 'Find golf resorts (accommodations with on-site golf courses) perfect for stay-and-play packages.',
+  scope: 'catalogue',
+  inputSchema: GetGolfResortsSchema,
+  outputSchema: z.array(AccommodationDetailSchema),
+  cache: { key: (params) => `resorts:${params.region || 'all'}:${params.limit}:${params.cursor ?? ''}` },
+  handler: async (params) => {
     const supabase = getSupabaseClient();
+    const offset = decodeCursor(params.cursor, params);
     let query = supabase
       .from('accommodations')
-      .select('*')
+      .select('*', { count: 'exact' })
       .eq('is_golf_resort', true);
     
-    if (region) {
-      query = query.ilike('region', `%${region}%`);
-    }
-    
-    const { data, error } = await query;
-    
-    if (error) {
-      return {
-        success: false,
-        error: `Database error: ${error.message}`,
-      };
+    if (params.region) {
+      query = query.ilike('region', `%${params.region}%`);
     }
     
-    await setCached(cacheKey, data);
+    const response = await query
+      .order('rating', { ascending: false })
+      .order('id')
+      .range(offset, offset + params.limit - 1);
+    const data = unwrapQuery(response) ?? [];
     
-    const duration = Date.now() - startTime;
     return {
-      success: true,
-      data: data || [],
-      metadata: {
-        count: data?.length || 0,
-        duration_ms: duration,
-      },
-    };
-  } catch (error) {
-    logger.error('getGolfResorts exception', { error });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      data,
+      metadata: pageInfo(params, offset, data.length, response.count ?? data.length),
     };
-  }
-}
+  },
+});
 
+/**
+ * Find accommodation by name (fuzzy search)
+ */
+export const findAccommodationByName = defineTool({
+  name: 'find_accommodation_by_name',
+  description: 'Find hotels and accommodations by name using fuzzy search, tolerant of misspellings, missing words and common aliases. Returns candidates ranked by match_score.',
+  scope: 'catalogue',
+  inputSchema: FindAccommodationByNameSchema,
+  outputSchema: z.array(AccommodationMatchSchema),
+  cache: { key: (params) => `accommodations:name:${JSON.stringify(params)}` },
+  handler: async (params) => {
+    const supabase = getSupabaseClient();
+    const accommodations = unwrapQuery(
+      await supabase
+        .from('accommodations')
+        .select('id, name, type, region, standard_rate_cents')
+    ) ?? [];
+    
+    const matches = rankByName(accommodations, params.accommodation_name, {
+      aliases: ACCOMMODATION_ALIASES,
+      minScore: params.min_score,
+    });
+    const { page: data, pageInfo: page } = paginate(matches, params, params.limit);
+    
+    return { data, metadata: page };
+  },
+});
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, filtered by the eq and in calls the tools make
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  interface Query {
+    select(): Query;
+    eq(column: string, value: unknown): Query;
+    in(column: string, values: unknown[]): Query;
+    maybeSingle(): Promise<{ data: Row | null; error: null }>;
+    then(resolve: (response: { data: Row[]; error: null }) => unknown): unknown;
+  }
+  const query = (rows: Row[]): Query => ({
+    select: () => query(rows),
+    eq: (column: string, value: unknown) => query(rows.filter(r => r[column] === value)),
+    in: (column: string, values: unknown[]) => query(rows.filter(r => values.includes(r[column]))),
+    maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+    then: resolve => resolve({ data: rows, error: null }),
+  });
+  return { tables: {} as Record<string, Row[]>, query };
+});
+
+vi.mock('../utils/database.js', () => ({
+  getSupabaseClient: () => ({ from: (table: string) => db.query(db.tables[table] ?? []) }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+import { checkRoomAvailability } from './availability.js';
+import { InMemoryHoldStore, setHoldStore } from '../utils/holds.js';
+import { setRoomInventoryProvider } from '../utils/roomInventory.js';
+import { RoomAvailabilitySchema } from '../types/tools.js';
+import type { ToolContext } from '../utils/auth.js';
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const HOTEL = '6f1c5a3e-0000-4000-8000-000000000002';
+
+const context: ToolContext = {
+  principal: { keyId: 'agent-key', operatorId: OPERATOR, scopes: ['catalogue', 'rates'] },
+};
+
+function negotiated(overrides: Record<string, unknown>) {
+  return {
+    id: 'r1',
+    operator_id: OPERATOR,
+    supplier_id: HOTEL,
+    supplier_type: 'accommodation',
+    rate_cents: null,
+    discount_percentage: null,
+    valid_from: null,
+    valid_until: null,
+    ...overrides,
+  };
+}
+
+async function nightlyRates() {
+  const result = await checkRoomAvailability.execute({
+    accommodation_id: HOTEL,
+    check_in: '2099-06-01',
+    check_out: '2099-06-02',
+  }, context);
+  if (!result.success) throw new Error(result.error);
+  return Object.fromEntries(RoomAvailabilitySchema.parse(result.data).room_types.map(type =>
+    [type.room_type, [type.nightly_rates[0].rate_cents, type.nightly_rates[0].pricing_rule]]));
+}
+
+beforeEach(() => {
+  db.tables = {
+    accommodations: [{ id: HOTEL, name: 'Adare Manor', standard_rate_cents: 20000 }],
+    operator_supplier_rates: [],
+  };
+  setHoldStore(new InMemoryHoldStore());
+  setRoomInventoryProvider({
+    name: 'test-rooms',
+    getRoomInventory: async () => [
+      { room_type: 'standard', name: 'Standard', max_occupancy: 2, standard: true, nights: [{ date: '2099-06-01', rooms_available: 5, rack_rate_cents: 20000 }] },
+      { room_type: 'suite', name: 'Suite', max_occupancy: 2, nights: [{ date: '2099-06-01', rooms_available: 5, rack_rate_cents: 40000 }] },
+    ],
+    book: async () => ({ reference: 'ROOM-1' }),
+  });
+});
+
+describe('check_room_availability', () => {
+  it('applies a flat negotiated rate to the standard room only', async () => {
+    db.tables.operator_supplier_rates = [negotiated({ rate_cents: 15000 })];
+    
+    expect(await nightlyRates()).toEqual({
+      standard: [15000, 'negotiated_rate'],
+      suite: [40000, 'rack_rate'],
+    });
+  });
+  
+  it('applies a negotiated discount to every room type', async () => {
+    db.tables.operator_supplier_rates = [negotiated({ discount_percentage: 10 })];
+    
+    expect(await nightlyRates()).toEqual({
+      standard: [18000, 'negotiated_discount'],
+      suite: [36000, 'negotiated_discount'],
+    });
+  });
+});
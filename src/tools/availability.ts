@@ -0,0 +1,224 @@
+/**
+ * Availability Tools
+ * 
+ * MCP tools for checking live supplier availability
+ */
+
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { NotFoundError, ValidationError, fromSupplier } from '../utils/errors.js';
+import { hasScope, optionalOperatorId } from '../utils/auth.js';
+import { getPriceConverter } from '../utils/currency.js';
+import type { PriceConverter } from '../utils/currency.js';
+import {
+  applyRate,
+  convertResolvedPrice,
+  daysBetween,
+  fetchOperatorRates,
+  selectApplicableRate,
+  today,
+} from '../utils/pricing.js';
+import type { NegotiatedRate } from '../utils/pricing.js';
+import { getTeeTimeProvider, toMinutes } from '../utils/teeTimes.js';
+import { getRoomInventoryProvider } from '../utils/roomInventory.js';
+import type { RoomTypeInventory } from '../utils/roomInventory.js';
+import { subtractHeldRooms, subtractHeldTeeTimes } from '../utils/holds.js';
+import { defineTool } from './define.js';
+import {
+  CheckTeeTimeAvailabilitySchema,
+  TeeTimeAvailabilitySchema,
+  CheckRoomAvailabilitySchema,
+  RoomAvailabilitySchema,
+} from '../types/tools.js';
+import type { CheckRoomAvailabilityParams, RoomAvailability } from '../types/tools.js';
+
+/**
+ * Longest stay a room availability check covers
+ */
+const MAX_STAY_NIGHTS = 30;
+
+/**
+ * Check tee times available at a course
+ */
+export const checkTeeTimeAvailability = defineTool({
+  name: 'check_tee_time_availability',
+  description: 'Check which tee times a course has free for a party on a date, optionally within a time window, with the green fee per player.',
+  scope: 'catalogue',
+  inputSchema: CheckTeeTimeAvailabilitySchema,
+  outputSchema: TeeTimeAvailabilitySchema,
+  handler: async (params) => {
+    assertNotPast(params.date, 'date');
+    
+    const earliest = params.earliest_time ? toMinutes(params.earliest_time) : 0;
+    const latest = params.latest_time ? toMinutes(params.latest_time) : 24 * 60;
+    if (earliest > latest) {
+      throw new ValidationError('earliest_time must not be after latest_time', [
+        { field: 'latest_time', message: 'Must not be before earliest_time', code: 'invalid_time_window' },
+      ]);
+    }
+    
+    const course = unwrapQuery<{ id: string; name: string; green_fee_standard_cents: number | null }>(
+      await getSupabaseClient()
+        .from('golf_courses')
+        .select('id, name, green_fee_standard_cents')
+        .eq('id', params.course_id)
+        .maybeSingle()
+    );
+    if (!course) {
+      throw new NotFoundError('Course', params.course_id);
+    }
+    
+    const provider = getTeeTimeProvider();
+    const sheet = await subtractHeldTeeTimes(
+      course.id,
+      params.date,
+      await fromSupplier(provider.name, provider.getTeeSheet({ courseId: course.id, date: params.date }))
+    );
+    
+    const teeTimes = sheet
+      .filter(slot => {
+        const minutes = toMinutes(slot.time);
+        return minutes >= earliest && minutes <= latest && slot.available_players >= params.party_size;
+      })
+      .map(slot => ({
+        time: slot.time,
+        available_players: slot.available_players,
+        green_fee_cents: slot.green_fee_cents ?? course.green_fee_standard_cents,
+      }));
+    
+    return {
+      data: {
+        course_id: course.id,
+        course_name: course.name,
+        date: params.date,
+        party_size: params.party_size,
+        provider: provider.name,
+        available: teeTimes.length > 0,
+        tee_times: teeTimes,
+      },
+      metadata: { tee_sheet_size: sheet.length },
+    };
+  },
+});
+
+/**
+ * Check rooms available at an accommodation for a stay
+ */
+export const checkRoomAvailability = defineTool({
+  name: 'check_room_availability',
+  description: "Check which room types an accommodation has free for every night of a stay, for a number of rooms and guests per room, with nightly rates including seasonal and weekend pricing and the operator's negotiated rate applied (for keys with the rates scope). A negotiated discount applies to every room type; a flat negotiated rate is for the standard room only, so other room types are priced at rack.",
+  scope: 'catalogue',
+  inputSchema: CheckRoomAvailabilitySchema,
+  outputSchema: RoomAvailabilitySchema,
+  handler: async (params, context) => {
+    assertNotPast(params.check_in, 'check_in');
+    
+    const nights = daysBetween(params.check_in, params.check_out);
+    if (nights < 1 || nights > MAX_STAY_NIGHTS) {
+      throw new ValidationError(`A stay must be between 1 and ${MAX_STAY_NIGHTS} nights`, [
+        { field: 'check_out', message: `Must be 1-${MAX_STAY_NIGHTS} nights after check_in`, code: 'invalid_stay' },
+      ]);
+    }
+    
+    const accommodation = unwrapQuery<{ id: string; name: string; standard_rate_cents: number | null }>(
+      await getSupabaseClient()
+        .from('accommodations')
+        .select('id, name, standard_rate_cents')
+        .eq('id', params.accommodation_id)
+        .maybeSingle()
+    );
+    if (!accommodation) {
+      throw new NotFoundError('Accommodation', params.accommodation_id);
+    }
+    
+    const operatorId = hasScope(context, 'rates') ? optionalOperatorId(params.operator_id, context) : undefined;
+    const provider = getRoomInventoryProvider();
+    const [inventory, rates] = await Promise.all([
+      fromSupplier(provider.name, provider.getRoomInventory({
+        accommodationId: accommodation.id,
+        checkIn: params.check_in,
+        checkOut: params.check_out,
+        standardRateCents: accommodation.standard_rate_cents,
+      })),
+      operatorId ? fetchOperatorRates(operatorId, [accommodation.id]) : Promise.resolve([]),
+    ]);
+    
+    const prices = getPriceConverter(params.currency);
+    const roomTypes = (await subtractHeldRooms(accommodation.id, inventory))
+      .filter(type => type.max_occupancy >= params.occupancy)
+      .map(type => priceRoomType(type, accommodation.id, rates, prices, params))
+      .filter(type => type.rooms_available >= params.rooms)
+      .sort((a, b) => a.total_cents - b.total_cents);
+    
+    return {
+      data: {
+        accommodation_id: accommodation.id,
+        accommodation_name: accommodation.name,
+        check_in: params.check_in,
+        check_out: params.check_out,
+        nights,
+        rooms: params.rooms,
+        occupancy: params.occupancy,
+        provider: provider.name,
+        negotiated_rates_applied: operatorId !== undefined,
+        available: roomTypes.length > 0,
+        room_types: roomTypes,
+      },
+      converted: true,
+    };
+  },
+});
+
+/**
+ * Apply the operator's rate to each night of a room type and total the stay,
+ * in the requested currency
+ * 
+ * A flat rate is negotiated against the property's standard rate, so it only
+ * prices standard rooms; discounts apply to the rack rate of any room type.
+ */
+function priceRoomType(
+  type: RoomTypeInventory,
+  accommodationId: string,
+  rates: NegotiatedRate[],
+  prices: PriceConverter,
+  params: CheckRoomAvailabilityParams
+): RoomAvailability['room_types'][number] {
+  const nightlyRates = type.nights.map(night => {
+    const rate = selectApplicableRate(rates, accommodationId, night.date);
+    const applicable = rate?.rate_cents != null && !type.standard ? undefined : rate;
+    const price = convertResolvedPrice(applyRate(night.rack_rate_cents, applicable), prices);
+    
+    return {
+      date: night.date,
+      rooms_available: night.rooms_available,
+      rack_rate_cents: price.rack_price_cents,
+      rate_cents: price.unit_price_cents,
+      pricing_rule: price.pricing_rule,
+      rate_id: price.rate_id,
+    };
+  });
+  const total = nightlyRates.reduce((sum, n) => sum + n.rate_cents, 0) * params.rooms;
+  const rackTotal = nightlyRates.reduce((sum, n) => sum + (n.rack_rate_cents ?? n.rate_cents), 0) * params.rooms;
+  
+  return {
+    room_type: type.room_type,
+    name: type.name,
+    max_occupancy: type.max_occupancy,
+    standard: type.standard ?? false,
+    rooms_available: Math.min(...nightlyRates.map(n => n.rooms_available)),
+    nightly_rates: nightlyRates,
+    total_cents: total,
+    rack_total_cents: rackTotal,
+    savings_cents: Math.max(0, rackTotal - total),
+  };
+}
+
+/**
+ * Reject dates before today
+ */
+function assertNotPast(date: string, field: string): void {
+  if (date < today()) {
+    throw new ValidationError('Cannot check availability for a past date', [
+      { field, message: `${date} is in the past`, code: 'date_in_past' },
+    ]);
+  }
+}
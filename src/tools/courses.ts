@@ -4,33 +4,47 @@
  * MCP tools for searching and retrieving golf course information
  */
 
-import { getSupabaseClient } from '../utils/database.js';
-import { getCached, setCached } from '../utils/cache.js';
-import { logger } from '../utils/logger.js';
-import type {
-  SearchCoursesParams,
-  GetCourseDetailsParams,
-  GetRecommendedCoursesParams,
-  ToolResult,
+import { z } from 'zod';
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { hasScope, optionalOperatorId, requireScope, resolveOperatorId } from '../utils/auth.js';
+import { annotateEffectivePrices, today } from '../utils/pricing.js';
+import { fetchLocation, rankByDistance } from '../utils/geo.js';
+import { decodeCursor, pageInfo, paginate } from '../utils/pagination.js';
+import { rankByName } from '../utils/fuzzy.js';
+import { scoreCourse } from '../utils/recommendations.js';
+import { getPriceConverter } from '../utils/currency.js';
+import { COURSE_ALIASES } from '../config/aliases.js';
+import { getBudgetTier } from '../config/budgetTiers.js';
+import { applySort, compareBySort, describeSort, resolveSort } from '../utils/sorting.js';
+import { defineTool } from './define.js';
+import {
+  SearchCoursesSchema,
+  GetCourseDetailsSchema,
+  GetRecommendedCoursesSchema,
+  FindCourseByNameSchema,
+  CourseSummarySchema,
+  CourseDetailSchema,
+  CourseMatchSchema,
+  RecommendedCourseSchema,
 } from '../types/tools.js';
 
 /**
  * Search for golf courses
  */
-export async function searchCourses(
-  params: SearchCoursesParams
-): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
-    // Check cache
-    const cacheKey = `courses:search:${JSON.stringify(params)}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      logger.info('Cache hit for searchCourses', { params });
-      return { success: true, data: cached, metadata: { cached: true } };
-    }
-    
+export const searchCourses = defineTool({
+  name: 'search_courses',
+  description: 'Search for golf courses by region, type, and price range, or near an accommodation (with distance_km). Returns a list of courses with basic information.',
+  scope: 'catalogue',
+  inputSchema: SearchCoursesSchema,
+  outputSchema: z.array(CourseSummarySchema),
+  cache: {
+    // Effective prices depend on the caller's operator and current rates
+    key: (params) => params.include_effective_price
+      ? undefined
+      : `courses:search:${JSON.stringify(params)}`,
+  },
+  handler: async (params, context) => {
     const supabase = getSupabaseClient();
     let query = supabase
       .from('golf_courses')
@@ -46,7 +60,7 @@ export async function searchCourses(
         location,
         features,
         created_at
-      `);
+      `, { count: 'exact' });
     
     // Apply filters
     if (params.region) {
@@ -65,121 +79,102 @@ export async function searchCourses(
       query = query.lte('green_fee_standard_cents', params.max_price_cents);
     }
     
-    query = query.limit(params.limit || 20);
-    query = query.order('rating', { ascending: false });
+    const limit = params.limit;
+    const offset = decodeCursor(params.cursor, params);
+    const origin = params.near_accommodation_id
+      ? await fetchLocation('accommodations', params.near_accommodation_id)
+      : undefined;
+    const sort = resolveSort(params.sort_by, {
+      priceColumn: 'green_fee_standard_cents',
+      hasOrigin: origin !== undefined,
+    });
     
-    const { data, error } = await query;
+    // Distance, difficulty and name orders are applied in process, so every
+    // match is sorted before the page is cut rather than paging in the query
+    const inMemory = origin !== undefined || sort.inMemory;
+    const response = await (inMemory ? query : applySort(query, sort).range(offset, offset + limit - 1));
+    const rows = unwrapQuery(response) ?? [];
+    const matches = inMemory
+      ? (origin ? rankByDistance(rows, origin, params.radius_km) : rows).sort(compareBySort(sort))
+      : undefined;
+    const data = matches ? matches.slice(offset, offset + limit) : rows;
+    const metadata = {
+      sort: describeSort(sort),
+      ...pageInfo(params, offset, data.length, matches?.length ?? response.count ?? rows.length),
+    };
     
-    if (error) {
-      logger.error('searchCourses failed', { error, params });
+    if (params.include_effective_price) {
+      requireScope(context, 'rates', 'include_effective_price');
       return {
-        success: false,
-        error: `Database error: ${error.message}`,
+        data: await annotateEffectivePrices(
+          data,
+          row => row.green_fee_standard_cents,
+          resolveOperatorId(params.operator_id, context),
+          params.price_date ?? today()
+        ),
+        metadata,
       };
     }
     
-    // Cache results
-    await setCached(cacheKey, data);
-    
-    const duration = Date.now() - startTime;
-    logger.info('searchCourses completed', {
-      params,
-      results_count: data?.length || 0,
-      duration_ms: duration,
-    });
-    
-    return {
-      success: true,
-      data: data || [],
-      metadata: {
-        count: data?.length || 0,
-        duration_ms: duration,
-      },
-    };
-  } catch (error) {
-    logger.error('searchCourses exception', { error, params });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
+    return { data, metadata };
+  },
+});
 
 /**
  * Get detailed information about a specific course
  */
-export async function getCourseDetails(
-  params: GetCourseDetailsParams
-): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
-    const cacheKey = `course:details:${params.course_id}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
-    }
-    
+export const getCourseDetails = defineTool({
+  name: 'get_course_details',
+  description: 'Get comprehensive details about a specific golf course including pricing, features, and contact information.',
+  scope: 'catalogue',
+  inputSchema: GetCourseDetailsSchema,
+  outputSchema: CourseDetailSchema,
+  cache: { key: (params) => `course:details:${params.course_id}` },
+  handler: async (params) => {
     const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-      .from('golf_courses')
-      .select('*')
-      .eq('id', params.course_id)
-      .single();
+    const data = unwrapQuery(
+      await supabase
+        .from('golf_courses')
+        .select('*')
+        .eq('id', params.course_id)
+        .maybeSingle()
+    );
     
-    if (error) {
-      logger.error('getCourseDetails failed', { error, params });
-      return {
-        success: false,
-        error: `Course not found or database error: ${error.message}`,
-      };
+    if (!data) {
+      throw new NotFoundError('Course', params.course_id);
     }
     
-    await setCached(cacheKey, data);
-    
-    const duration = Date.now() - startTime;
-    logger.info('getCourseDetails completed', {
-      course_id: params.course_id,
-      duration_ms: duration,
-    });
-    
-    return {
-      success: true,
-      data,
-      metadata: { duration_ms: duration },
-    };
-  } catch (error) {
-    logger.error('getCourseDetails exception', { error, params });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
+    return { data };
+  },
+});
 
 /**
  * Get recommended courses based on budget and region
  */
-export async function getRecommendedCourses(
-  params: GetRecommendedCoursesParams
-): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
-    const cacheKey = `courses:recommended:${JSON.stringify(params)}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
+export const getRecommendedCourses = defineTool({
+  name: 'get_recommended_courses',
+  description: "Get recommended courses for a region within a budget tier (budget/standard/luxury), scored on rating, difficulty for the group's handicaps, preferred course types, price fit and the operator's negotiated rates. Each result includes a score breakdown and a short reason.",
+  scope: 'catalogue',
+  inputSchema: GetRecommendedCoursesSchema,
+  outputSchema: z.array(RecommendedCourseSchema),
+  cache: {
+    // Negotiated rates depend on the caller's operator and current rates
+    key: (params, context) => optionalOperatorId(params.operator_id, context) && hasScope(context, 'rates')
+      ? undefined
+      : `courses:recommended:${optionalOperatorId(params.operator_id, context) ?? 'default'}:${JSON.stringify(params)}`,
+  },
+  handler: async (params, context) => {
+    if (
+      params.handicap_min !== undefined && params.handicap_max !== undefined
+      && params.handicap_min > params.handicap_max
+    ) {
+      throw new ValidationError('handicap_min must not exceed handicap_max', [
+        { field: 'handicap_min', message: 'Must not exceed handicap_max', code: 'invalid_range' },
+      ]);
     }
     
-    // Budget tier price ranges (in cents)
-    const priceRanges = {
-      budget: { max: 15000 }, // Up to €150
-      standard: { min: 15000, max: 35000 }, // €150-€350
-      luxury: { min: 35000 }, // €350+
-    };
-    
-    const range = priceRanges[params.budget_tier];
+    const operatorId = optionalOperatorId(params.operator_id, context);
+    const range = getBudgetTier(params.budget_tier, operatorId);
     const supabase = getSupabaseClient();
     
     let query = supabase
@@ -195,97 +190,93 @@ export async function getRecommendedCourses(
         description,
         features
       `)
-      .ilike('region', `%${params.region}%`)
-      .order('rating', { ascending: false })
-      .limit(params.limit || 10);
+      .ilike('region', `%${params.region}%`);
     
-    if ('min' in range && range.min !== undefined) {
-      query = query.gte('green_fee_standard_cents', range.min);
+    if (range.min_cents !== undefined) {
+      query = query.gte('green_fee_standard_cents', range.min_cents);
     }
     
-    if ('max' in range && range.max !== undefined) {
-      query = query.lte('green_fee_standard_cents', range.max);
+    if (range.max_cents !== undefined) {
+      query = query.lt('green_fee_standard_cents', range.max_cents);
     }
     
-    const { data, error } = await query;
-    
-    if (error) {
-      logger.error('getRecommendedCourses failed', { error, params });
-      return {
-        success: false,
-        error: `Database error: ${error.message}`,
-      };
-    }
+    // Every course in the tier is scored, so sorting and paging happen in
+    // process
+    const offset = decodeCursor(params.cursor, params);
+    const sort = resolveSort(params.sort_by, { priceColumn: 'green_fee_standard_cents' });
+    const rows = unwrapQuery(await query) ?? [];
     
-    await setCached(cacheKey, data);
+    // Negotiated rates count towards the score when the caller may see them
+    const ratesOperatorId = hasScope(context, 'rates') ? operatorId : undefined;
+    const effectivePrices = ratesOperatorId
+      ? new Map((await annotateEffectivePrices(
+        rows,
+        row => row.green_fee_standard_cents,
+        ratesOperatorId,
+        params.travel_date ?? today()
+      )).map(row => [row.id, row.effective_price]))
+      : undefined;
+    const handicap = params.handicap_min !== undefined || params.handicap_max !== undefined
+      ? { min: params.handicap_min ?? params.handicap_max!, max: params.handicap_max ?? params.handicap_min! }
+      : undefined;
+    const prices = getPriceConverter(params.currency);
     
-    const duration = Date.now() - startTime;
-    logger.info('getRecommendedCourses completed', {
-      params,
-      results_count: data?.length || 0,
-      duration_ms: duration,
-    });
+    const matches = rows
+      .map(row => ({
+        ...row,
+        ...(effectivePrices?.has(row.id) ? { effective_price: effectivePrices.get(row.id)! } : {}),
+        ...scoreCourse(row, {
+          budgetTier: params.budget_tier,
+          priceRange: range,
+          handicap,
+          preferredTypes: params.preferred_course_types,
+          effectivePrices,
+          prices,
+        }),
+      }))
+      .sort(compareBySort(sort));
+    const data = matches.slice(offset, offset + params.limit);
     
     return {
-      success: true,
-      data: data || [],
+      data,
       metadata: {
-        count: data?.length || 0,
         budget_tier: params.budget_tier,
-        duration_ms: duration,
+        price_range: range,
+        negotiated_rates_considered: effectivePrices !== undefined,
+        sort: describeSort(sort),
+        ...pageInfo(params, offset, data.length, matches.length),
       },
     };
-  } catch (error) {
-    logger.error('getRecommendedCourses exception', { error, params });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
+  },
+});
 
 /**
  * Find course by name (fuzzy search)
  */
-export async function findCourseByName(courseName: string): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
+export const findCourseByName = defineTool({
+  name: 'find_course_by_name',
+  description: 'Find courses by name using fuzzy search, tolerant of misspellings, missing words and common aliases. Returns candidates ranked by match_score. Useful when user mentions specific course names.',
+  scope: 'catalogue',
+  inputSchema: FindCourseByNameSchema,
+  outputSchema: z.array(CourseMatchSchema),
+  cache: { key: (params) => `courses:name:${JSON.stringify(params)}` },
+  handler: async (params) => {
     const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-      .from('golf_courses')
-      .select('id, name, region, course_type, green_fee_standard_cents')
-      .ilike('name', `%${courseName}%`)
-      .limit(10);
     
-    if (error) {
-      return {
-        success: false,
-        error: `Database error: ${error.message}`,
-      };
-    }
+    // Misspelt names share no substring with the stored name, so every
+    // course is scored in process rather than filtered in the query
+    const courses = unwrapQuery(
+      await supabase
+        .from('golf_courses')
+        .select('id, name, region, course_type, green_fee_standard_cents')
+    ) ?? [];
     
-    const duration = Date.now() - startTime;
-    logger.info('findCourseByName completed', {
-      search_term: courseName,
-      results_count: data?.length || 0,
-      duration_ms: duration,
+    const matches = rankByName(courses, params.course_name, {
+      aliases: COURSE_ALIASES,
+      minScore: params.min_score,
     });
+    const { page: data, pageInfo: page } = paginate(matches, params, params.limit);
     
-    return {
-      success: true,
-      data: data || [],
-      metadata: {
-        count: data?.length || 0,
-        duration_ms: duration,
-      },
-    };
-  } catch (error) {
-    logger.error('findCourseByName exception', { error, courseName });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
-
+    return { data, metadata: page };
+  },
+});
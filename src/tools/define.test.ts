@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { defineTool } from './define.js';
+import { resolveOperatorId } from '../utils/auth.js';
+import type { ToolContext } from '../utils/auth.js';
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const OTHER_OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000bb';
+
+const handler = vi.fn(async (params: { operator_id?: string }, context: ToolContext) => ({
+  data: { operator_id: resolveOperatorId(params.operator_id, context) },
+}));
+
+const tool = defineTool({
+  name: 'get_operator',
+  description: 'Operator the call acts for',
+  scope: 'rates',
+  inputSchema: z.object({ operator_id: z.string().uuid().optional() }),
+  outputSchema: z.object({ operator_id: z.string() }),
+  handler,
+});
+
+const publicAgent: ToolContext = {
+  principal: { keyId: 'chat', operatorId: OPERATOR, scopes: ['catalogue'] },
+};
+const salesAgent: ToolContext = {
+  principal: { keyId: 'sales', operatorId: OPERATOR, scopes: ['catalogue', 'rates'] },
+};
+
+describe('defineTool', () => {
+  it('refuses a caller without the tool scope before running the handler', async () => {
+    handler.mockClear();
+    
+    const result = await tool.execute({}, publicAgent);
+    
+    expect(result).toMatchObject({ success: false, code: 'forbidden', details: { required_scope: 'rates' } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+  
+  it('runs the handler for a caller with the tool scope', async () => {
+    const result = await tool.execute({}, salesAgent);
+    
+    expect(result).toMatchObject({ success: true, data: { operator_id: OPERATOR } });
+  });
+  
+  it('reports access to another operator as forbidden', async () => {
+    const result = await tool.execute({ operator_id: OTHER_OPERATOR }, salesAgent);
+    
+    expect(result).toMatchObject({ success: false, code: 'forbidden', details: { operator_id: OTHER_OPERATOR } });
+  });
+});
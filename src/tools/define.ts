@@ -0,0 +1,173 @@
+/**
+ * Tool Definition Builder
+ * 
+ * `defineTool` wraps a tool handler with the concerns every tool shares:
+ * argument validation, response caching, timing metadata, logging and
+ * error mapping. Handlers only query and shape data, and throw typed
+ * errors (utils/errors.ts) on failure.
+ * 
+ * Tools whose input schema has a `currency` parameter are priced: handlers
+ * work in the base currency, `*_cents` arguments are converted to it before
+ * the handler runs, and `*_cents` fields in the result are converted to the
+ * requested currency afterwards (utils/currency.ts). Handlers that add up
+ * prices convert them first and return `converted: true`, so totals match
+ * the lines they are made of.
+ */
+
+import type { z } from 'zod';
+import { getCached, setCached } from '../utils/cache.js';
+import { logger } from '../utils/logger.js';
+import { toToolError } from '../utils/errors.js';
+import { requireScope } from '../utils/auth.js';
+import { convertPriceArguments, convertPrices, getPriceConverter, labelPrices } from '../utils/currency.js';
+import type { Scope, ToolContext } from '../utils/auth.js';
+import type { ToolResult } from '../types/tools.js';
+
+/**
+ * Value returned by a tool handler
+ */
+export interface ToolOutput<T> {
+  data: T;
+  metadata?: Record<string, any>;
+  /** Whether `*_cents` fields in `data` are already in the requested currency */
+  converted?: boolean;
+}
+
+/**
+ * Declarative tool configuration
+ */
+export interface ToolConfig<I extends z.AnyZodObject, O extends z.ZodTypeAny> {
+  name: string;
+  description: string;
+  /** Scope a caller needs to list and call this tool */
+  scope: Scope;
+  inputSchema: I;
+  /** Schema of `data` in successful results */
+  outputSchema: O;
+  /**
+   * Cache successful results under `key(params)` for `ttlSeconds` (defaults
+   * to CACHE_TTL_SECONDS); return undefined from `key` to skip the cache
+   */
+  cache?: {
+    key: (params: z.infer<I>, context: ToolContext) => string | undefined;
+    ttlSeconds?: number;
+  };
+  handler: (params: z.infer<I>, context: ToolContext) => Promise<ToolOutput<z.infer<O>>>;
+}
+
+/**
+ * Registered tool
+ */
+export interface ToolDefinition<
+  I extends z.AnyZodObject = z.AnyZodObject,
+  O extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  name: string;
+  description: string;
+  scope: Scope;
+  inputSchema: I;
+  outputSchema: O;
+  /** Validate raw arguments against `inputSchema` and run the tool; never throws */
+  execute: (args: unknown, context?: ToolContext) => Promise<ToolResult<z.infer<O>>>;
+}
+
+/**
+ * Define a tool from its schemas and handler
+ */
+export function defineTool<I extends z.AnyZodObject, O extends z.ZodTypeAny>(
+  config: ToolConfig<I, O>
+): ToolDefinition<I, O> {
+  const { name, scope, outputSchema, cache, handler } = config;
+  const priced = 'currency' in config.inputSchema.shape;
+  
+  async function execute(args: unknown, context: ToolContext = {}): Promise<ToolResult<z.infer<O>>> {
+    const startTime = Date.now();
+    let params: z.infer<I> | undefined;
+    
+    try {
+      requireScope(context, scope, name);
+      
+      params = config.inputSchema.parse(args ?? {}) as z.infer<I>;
+      
+      const prices = priced ? getPriceConverter(params.currency) : undefined;
+      if (prices) {
+        params = convertPriceArguments(params, prices);
+      }
+      
+      // Results are cached converted, so the key carries the currency and
+      // rate; a rate refresh then misses rather than serving stale prices
+      const baseKey = cache?.key(params, context);
+      const cacheKey = baseKey && prices ? `${baseKey}:${prices.currency}@${prices.rate}` : baseKey;
+      if (cacheKey) {
+        const cached = await getCached<ToolOutput<z.infer<O>>>(cacheKey);
+        if (cached) {
+          logger.info(`Cache hit for ${name}`, { params });
+          return {
+            success: true,
+            data: cached.data,
+            metadata: { ...cached.metadata, cached: true },
+          };
+        }
+      }
+      
+      const output = await handler(params, context);
+      const data = !prices
+        ? output.data
+        : output.converted ? labelPrices(output.data, prices) : convertPrices(output.data, prices);
+      
+      // Output schemas describe what agents can rely on; drift from the
+      // database is logged rather than failing the call
+      const validation = outputSchema.safeParse(data);
+      if (!validation.success) {
+        logger.warn(`${name} output does not match its schema`, {
+          issues: validation.error.issues.slice(0, 5),
+        });
+      }
+      
+      const duration = Date.now() - startTime;
+      const metadata = {
+        ...(Array.isArray(data) ? { count: data.length } : {}),
+        ...(prices ? convertPrices(output.metadata, prices) : output.metadata),
+        ...(prices ? { currency: { code: prices.currency, rate: prices.rate, as_of: prices.asOf } } : {}),
+        duration_ms: duration,
+      };
+      
+      if (cacheKey) {
+        await setCached(cacheKey, { data, metadata }, cache?.ttlSeconds);
+      }
+      
+      logger.info(`${name} completed`, {
+        params,
+        results_count: Array.isArray(data) ? data.length : undefined,
+        duration_ms: duration,
+      });
+      
+      return { success: true, data, metadata };
+    } catch (error) {
+      const toolError = toToolError(error, { tool: name, key_id: context.principal?.keyId });
+      logger.log(toolError.status >= 500 ? 'error' : 'warn', `${name} failed`, {
+        code: toolError.code,
+        error: toolError.message,
+        details: toolError.details,
+        params: params ?? args,
+        key_id: context.principal?.keyId,
+      });
+      
+      return {
+        success: false,
+        error: toolError.message,
+        code: toolError.code,
+        details: toolError.details,
+      };
+    }
+  }
+  
+  return {
+    name,
+    description: config.description,
+    scope,
+    inputSchema: config.inputSchema,
+    outputSchema,
+    execute,
+  };
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Every course and accommodation asked about exists
+vi.mock('../utils/database.js', () => ({
+  getSupabaseClient: () => ({
+    from: () => ({
+      select: () => ({
+        in: async (_column: string, ids: string[]) => ({ data: ids.map(id => ({ id })), error: null }),
+      }),
+    }),
+  }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+import { confirmBooking, createHold, releaseHold } from './holds.js';
+import { HoldSchema } from '../types/tools.js';
+import { InMemoryHoldStore, setHoldStore } from '../utils/holds.js';
+import { setTeeTimeProvider } from '../utils/teeTimes.js';
+import { setRoomInventoryProvider } from '../utils/roomInventory.js';
+import type { ToolContext } from '../utils/auth.js';
+
+const COURSE = '6f1c5a3e-0000-4000-8000-000000000001';
+const HOTEL = '6f1c5a3e-0000-4000-8000-000000000002';
+
+const context: ToolContext = {
+  principal: { keyId: 'agent-key', operatorId: '6f1c5a3e-0000-4000-8000-0000000000aa', scopes: ['bookings'] },
+};
+
+const request = {
+  tee_times: [{ course_id: COURSE, date: '2099-06-01', time: '08:10', players: 4 }],
+  rooms: [{ accommodation_id: HOTEL, room_type: 'deluxe', check_in: '2099-06-01', check_out: '2099-06-03', rooms: 2 }],
+  hold_minutes: 30,
+};
+
+const bookRooms = vi.fn(async () => ({ reference: 'ROOM-1' }));
+
+beforeEach(() => {
+  setHoldStore(new InMemoryHoldStore());
+  setTeeTimeProvider({
+    name: 'test-tee-sheet',
+    getTeeSheet: async () => [{ time: '08:10', capacity: 4, available_players: 4 }],
+    book: async () => ({ reference: 'TEE-1' }),
+  });
+  setRoomInventoryProvider({
+    name: 'test-rooms',
+    getRoomInventory: async () => [{
+      room_type: 'deluxe',
+      name: 'Deluxe',
+      max_occupancy: 2,
+      nights: ['2099-06-01', '2099-06-02'].map(date => ({ date, rooms_available: 2, rack_rate_cents: 30000, effective_rate_cents: 30000 })),
+    }],
+    book: bookRooms,
+  });
+  bookRooms.mockClear();
+});
+
+describe('hold tools', () => {
+  it('holds inventory once and returns results matching HoldSchema', async () => {
+    const first = await createHold.execute({ ...request, idempotency_key: 'quote-1182' }, context);
+    const replay = await createHold.execute({ ...request, idempotency_key: 'quote-1182' }, context);
+    const second = await createHold.execute(request, context);
+    
+    expect(first.success).toBe(true);
+    expect(HoldSchema.parse(first.data)).toMatchObject({ status: 'held', history: [{ action: 'created', actor: 'agent-key' }] });
+    expect(replay).toMatchObject({ success: true, data: { id: first.data?.id }, metadata: { idempotent_replay: true } });
+    expect(second).toMatchObject({ success: false, code: 'conflict' });
+  });
+  
+  it('keeps a failed confirmation, then books only what is left', async () => {
+    const hold = await createHold.execute(request, context);
+    bookRooms.mockRejectedValueOnce(new Error('Reservation system down'));
+    
+    const failed = await confirmBooking.execute({ hold_id: hold.data!.id }, context);
+    expect(failed).toMatchObject({ success: false, code: 'upstream_supplier' });
+    
+    const retried = await confirmBooking.execute({ hold_id: hold.data!.id }, context);
+    const confirmed = HoldSchema.parse(retried.data);
+    
+    expect(confirmed.status).toBe('confirmed');
+    expect(confirmed.tee_times[0].booking_reference).toBe('TEE-1');
+    expect(confirmed.rooms[0].booking_reference).toBe('ROOM-1');
+    expect(confirmed.history.map(e => e.action)).toEqual(['created', 'confirm_failed', 'confirmed']);
+    expect(bookRooms).toHaveBeenCalledTimes(2);
+  });
+  
+  it('releases a hold and gives its inventory back', async () => {
+    const hold = await createHold.execute(request, context);
+    const released = await releaseHold.execute({ hold_id: hold.data!.id, reason: 'Client chose Portugal' }, context);
+    
+    expect(HoldSchema.parse(released.data).status).toBe('released');
+    expect((await createHold.execute(request, context)).success).toBe(true);
+    expect((await confirmBooking.execute({ hold_id: hold.data!.id }, context)).code).toBe('conflict');
+  });
+});
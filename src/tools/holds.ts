@@ -0,0 +1,454 @@
+/**
+ * Hold Tools
+ * 
+ * MCP tools for holding tee times and rooms while a client decides, and
+ * booking them on confirmation
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { ConflictError, NotFoundError, ValidationError, fromSupplier } from '../utils/errors.js';
+import { resolveOperatorId } from '../utils/auth.js';
+import type { ToolContext } from '../utils/auth.js';
+import { daysBetween, today } from '../utils/pricing.js';
+import { getTeeTimeProvider } from '../utils/teeTimes.js';
+import { getRoomInventoryProvider } from '../utils/roomInventory.js';
+import {
+  expireHold,
+  getHoldStore,
+  isLapsed,
+  roomNightKey,
+  teeTimeKey,
+} from '../utils/holds.js';
+import type { Hold, HoldAction, HoldCapacity, HoldStatus, IdempotencyRecord } from '../utils/holds.js';
+import { defineTool } from './define.js';
+import type { ToolOutput } from './define.js';
+import {
+  CreateHoldSchema,
+  ExtendHoldSchema,
+  ReleaseHoldSchema,
+  ConfirmBookingSchema,
+  HoldSchema,
+} from '../types/tools.js';
+import type { CreateHoldParams, HoldResult } from '../types/tools.js';
+
+/**
+ * Longest a hold may be kept open, counting extensions
+ */
+const MAX_HOLD_LIFETIME_HOURS = 72;
+
+/**
+ * Longest stay a hold covers
+ */
+const MAX_STAY_NIGHTS = 30;
+
+/**
+ * Place a hold on tee times and rooms
+ */
+export const createHold = defineTool({
+  name: 'create_hold',
+  description: 'Hold tee times and rooms for a limited time (hold_minutes) while the client decides. Fails with a conflict listing what is no longer available. Confirm with confirm_booking, or release with release_hold.',
+  scope: 'bookings',
+  inputSchema: CreateHoldSchema,
+  outputSchema: HoldSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    validateHoldItems(params);
+    
+    const replay = await replayed('create_hold', operatorId, params);
+    if (replay) return replay;
+    
+    await Promise.all([
+      assertSuppliersExist('golf_courses', 'Course', params.tee_times.map(t => t.course_id)),
+      assertSuppliersExist('accommodations', 'Accommodation', params.rooms.map(r => r.accommodation_id)),
+    ]);
+    
+    const now = new Date();
+    const hold: Hold = {
+      id: randomUUID(),
+      operator_id: operatorId,
+      status: 'held',
+      tee_times: params.tee_times.map(t => ({ ...t, booking_reference: null })),
+      rooms: params.rooms.map(r => ({ ...r, booking_reference: null })),
+      client_reference: params.client_reference ?? null,
+      notes: params.notes ?? null,
+      expires_at: new Date(now.getTime() + params.hold_minutes * 60_000).toISOString(),
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    };
+    
+    // The store checks availability and inserts in one step, so concurrent
+    // requests, on this server or another, cannot both take the last place
+    const { unavailable, duplicate_key: duplicateKey } = await getHoldStore().insertIfAvailable(
+      hold,
+      await supplierCapacity(params),
+      idempotencyRecord('create_hold', params, hold)
+    );
+    
+    if (duplicateKey) {
+      const concurrent = await replayed('create_hold', operatorId, params);
+      if (concurrent) return concurrent;
+      throw new ConflictError('idempotency_key is in use by a concurrent request', { idempotency_key: params.idempotency_key });
+    }
+    if (unavailable.length > 0) {
+      throw new ConflictError('Some requested inventory is not available', { unavailable });
+    }
+    
+    await record(hold, 'created', context, { hold_minutes: params.hold_minutes });
+    
+    return { data: await withHistory(hold) };
+  },
+});
+
+/**
+ * Push back the expiry of a hold
+ */
+export const extendHold = defineTool({
+  name: 'extend_hold',
+  description: `Give the client more time by extending a hold's expiry by extend_minutes. A hold can be kept open for at most ${MAX_HOLD_LIFETIME_HOURS} hours in total.`,
+  scope: 'bookings',
+  inputSchema: ExtendHoldSchema,
+  outputSchema: HoldSchema,
+  handler: async (params, context) => {
+    const hold = await loadHold(params.hold_id, context);
+    const replay = await replayed('extend_hold', hold.operator_id, params);
+    if (replay) return replay;
+    
+    assertStatus(hold, 'extended');
+    
+    const expiresAt = new Date(Date.parse(hold.expires_at) + params.extend_minutes * 60_000);
+    const latest = Date.parse(hold.created_at) + MAX_HOLD_LIFETIME_HOURS * 3_600_000;
+    if (expiresAt.getTime() > latest) {
+      throw new ValidationError(`Holds cannot be kept open for more than ${MAX_HOLD_LIFETIME_HOURS} hours`, [
+        {
+          field: 'extend_minutes',
+          message: `At most ${Math.max(0, Math.floor((latest - Date.parse(hold.expires_at)) / 60_000))} more minutes allowed`,
+          code: 'hold_too_long',
+        },
+      ]);
+    }
+    
+    const extended = await save({ ...hold, expires_at: expiresAt.toISOString(), updated_at: new Date().toISOString() }, hold);
+    await record(extended, 'extended', context, { previous_expires_at: hold.expires_at, expires_at: extended.expires_at });
+    await remember('extend_hold', params, extended);
+    
+    return { data: await withHistory(extended) };
+  },
+});
+
+/**
+ * Give up a hold
+ */
+export const releaseHold = defineTool({
+  name: 'release_hold',
+  description: 'Release a hold so its tee times and rooms become available again. Releasing a hold that is already released or expired has no effect. A hold whose confirmation failed can be released too; bookings the suppliers already made keep their booking_reference and must be cancelled with the supplier.',
+  scope: 'bookings',
+  inputSchema: ReleaseHoldSchema,
+  outputSchema: HoldSchema,
+  handler: async (params, context) => {
+    const hold = await loadHold(params.hold_id, context);
+    const replay = await replayed('release_hold', hold.operator_id, params);
+    if (replay) return replay;
+    
+    if (hold.status === 'released' || hold.status === 'expired') {
+      return { data: await withHistory(hold) };
+    }
+    assertStatus(hold, 'released', ['held', 'confirm_failed']);
+    
+    const booked = [...hold.tee_times, ...hold.rooms].flatMap(item => item.booking_reference ? [item.booking_reference] : []);
+    const released = await save({ ...hold, status: 'released', updated_at: new Date().toISOString() }, hold);
+    await record(released, 'released', context, {
+      ...(params.reason ? { reason: params.reason } : {}),
+      ...(booked.length > 0 ? { booking_references: booked } : {}),
+    });
+    await remember('release_hold', params, released);
+    
+    return { data: await withHistory(released) };
+  },
+});
+
+/**
+ * Book everything on a hold with the suppliers
+ */
+export const confirmBooking = defineTool({
+  name: 'confirm_booking',
+  description: "Confirm a hold: books its tee times and rooms with the courses' and properties' systems and returns their booking references. Confirming an already confirmed hold returns it unchanged. If a supplier fails, the hold is left confirm_failed with the references already obtained; confirming it again books only the rest.",
+  scope: 'bookings',
+  inputSchema: ConfirmBookingSchema,
+  outputSchema: HoldSchema,
+  handler: async (params, context) => {
+    const hold = await loadHold(params.hold_id, context);
+    const replay = await replayed('confirm_booking', hold.operator_id, params);
+    if (replay) return replay;
+    
+    if (hold.status === 'confirmed') {
+      return { data: await withHistory(hold) };
+    }
+    assertStatus(hold, 'confirmed', ['held', 'confirm_failed']);
+    
+    // Claiming the hold keeps other requests and the sweeper off it while
+    // the suppliers are called, without making them wait for the calls
+    let booking = await save({ ...hold, status: 'confirming', updated_at: new Date().toISOString() }, hold);
+    
+    // Items are booked one by one and their references saved as they come
+    // back, so a retry after a supplier failure only books what is left
+    const teeTimes = getTeeTimeProvider();
+    const rooms = getRoomInventoryProvider();
+    try {
+      for (const [i, t] of hold.tee_times.entries()) {
+        if (t.booking_reference) continue;
+        const { reference } = await fromSupplier(teeTimes.name, teeTimes.book({
+          courseId: t.course_id,
+          date: t.date,
+          time: t.time,
+          players: t.players,
+        }));
+        booking = await save({
+          ...booking,
+          tee_times: booking.tee_times.map((item, j) => (j === i ? { ...item, booking_reference: reference } : item)),
+          updated_at: new Date().toISOString(),
+        }, booking);
+      }
+      for (const [i, r] of hold.rooms.entries()) {
+        if (r.booking_reference) continue;
+        const { reference } = await fromSupplier(rooms.name, rooms.book({
+          accommodationId: r.accommodation_id,
+          roomType: r.room_type,
+          checkIn: r.check_in,
+          checkOut: r.check_out,
+          rooms: r.rooms,
+        }));
+        booking = await save({
+          ...booking,
+          rooms: booking.rooms.map((item, j) => (j === i ? { ...item, booking_reference: reference } : item)),
+          updated_at: new Date().toISOString(),
+        }, booking);
+      }
+    } catch (error) {
+      // Left confirm_failed rather than held, so the sweeper never expires a
+      // hold whose supplier bookings are live
+      const failed: Hold = { ...booking, status: 'confirm_failed', updated_at: new Date().toISOString() };
+      if (await getHoldStore().update(failed, booking)) {
+        await record(failed, 'confirm_failed', context, { error: error instanceof Error ? error.message : String(error) });
+      }
+      throw error;
+    }
+    
+    const confirmed = await save({ ...booking, status: 'confirmed', updated_at: new Date().toISOString() }, booking);
+    await record(confirmed, 'confirmed', context);
+    await remember('confirm_booking', params, confirmed);
+    
+    return { data: await withHistory(confirmed) };
+  },
+});
+
+/**
+ * Check dates and stays before touching any supplier
+ */
+function validateHoldItems(params: CreateHoldParams): void {
+  if (params.tee_times.length === 0 && params.rooms.length === 0) {
+    throw new ValidationError('A hold needs at least one tee time or room', [
+      { field: 'tee_times', message: 'Provide tee_times or rooms', code: 'empty_hold' },
+    ]);
+  }
+  
+  const fields = [
+    ...params.tee_times.flatMap((t, i) => t.date < today()
+      ? [{ field: `tee_times.${i}.date`, message: `${t.date} is in the past`, code: 'date_in_past' }]
+      : []),
+    ...params.rooms.flatMap((r, i) => {
+      const nights = daysBetween(r.check_in, r.check_out);
+      if (r.check_in < today()) {
+        return [{ field: `rooms.${i}.check_in`, message: `${r.check_in} is in the past`, code: 'date_in_past' }];
+      }
+      if (nights < 1 || nights > MAX_STAY_NIGHTS) {
+        return [{ field: `rooms.${i}.check_out`, message: `Must be 1-${MAX_STAY_NIGHTS} nights after check_in`, code: 'invalid_stay' }];
+      }
+      return [];
+    }),
+  ];
+  
+  if (fields.length > 0) {
+    throw new ValidationError('Invalid hold items', fields);
+  }
+}
+
+/**
+ * Throw NotFoundError unless every id is in the table
+ */
+async function assertSuppliersExist(table: string, resource: string, ids: string[]): Promise<void> {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) return;
+  
+  const rows = unwrapQuery<Array<{ id: string }>>(
+    await getSupabaseClient().from(table).select('id').in('id', unique)
+  ) ?? [];
+  const missing = unique.find(id => !rows.some(row => row.id === id));
+  
+  if (missing) {
+    throw new NotFoundError(resource, missing);
+  }
+}
+
+/**
+ * Free places and rooms the suppliers report for the requested items,
+ * before holds are taken out
+ */
+async function supplierCapacity(params: CreateHoldParams): Promise<HoldCapacity> {
+  const teeTimes = getTeeTimeProvider();
+  const roomInventory = getRoomInventoryProvider();
+  const capacity: HoldCapacity = { tee_times: {}, rooms: {} };
+  const fetched = new Set<string>();
+  
+  for (const t of params.tee_times) {
+    if (fetched.has(`${t.course_id}:${t.date}`)) continue;
+    fetched.add(`${t.course_id}:${t.date}`);
+    
+    const sheet = await fromSupplier(teeTimes.name, teeTimes.getTeeSheet({ courseId: t.course_id, date: t.date }));
+    for (const slot of sheet) {
+      capacity.tee_times[teeTimeKey(t.course_id, t.date, slot.time)] = slot.available_players;
+    }
+  }
+  
+  for (const r of params.rooms) {
+    if (fetched.has(`${r.accommodation_id}:${r.check_in}:${r.check_out}`)) continue;
+    fetched.add(`${r.accommodation_id}:${r.check_in}:${r.check_out}`);
+    
+    const inventory = await fromSupplier(roomInventory.name, roomInventory.getRoomInventory({
+      accommodationId: r.accommodation_id,
+      checkIn: r.check_in,
+      checkOut: r.check_out,
+      standardRateCents: null,
+    }));
+    for (const type of inventory) {
+      for (const night of type.nights) {
+        capacity.rooms[roomNightKey(r.accommodation_id, type.room_type, night.date)] = night.rooms_available;
+      }
+    }
+  }
+  
+  return capacity;
+}
+
+/**
+ * Load a hold the caller may act on, expiring it first if it has lapsed
+ */
+async function loadHold(holdId: string, context: ToolContext): Promise<Hold> {
+  const hold = await getHoldStore().get(holdId);
+  const bound = context.principal?.operatorId;
+  
+  // Other operators' holds are reported missing rather than forbidden
+  if (!hold || (bound && hold.operator_id !== bound)) {
+    throw new NotFoundError('Hold', holdId);
+  }
+  
+  return isLapsed(hold) ? expireHold(hold) : hold;
+}
+
+/**
+ * Throw ConflictError unless the hold is in one of the allowed statuses
+ */
+function assertStatus(hold: Hold, action: HoldAction, allowed: HoldStatus[] = ['held']): void {
+  if (!allowed.includes(hold.status)) {
+    throw new ConflictError(`Hold is ${hold.status} and cannot be ${action}`, {
+      hold_id: hold.id,
+      status: hold.status,
+    });
+  }
+}
+
+/**
+ * Save a change to a hold, or throw ConflictError if another request changed
+ * it since `previous` was read
+ */
+async function save(hold: Hold, previous: Hold): Promise<Hold> {
+  if (!await getHoldStore().update(hold, previous)) {
+    throw new ConflictError('Hold was changed by another request; reload it and try again', { hold_id: hold.id });
+  }
+  return hold;
+}
+
+/**
+ * Append to a hold's audit trail
+ */
+async function record(hold: Hold, action: HoldAction, context: ToolContext, details?: Record<string, unknown>): Promise<void> {
+  await getHoldStore().appendEvent({
+    hold_id: hold.id,
+    action,
+    actor: context.principal?.keyId ?? 'anonymous',
+    at: new Date().toISOString(),
+    ...(details ? { details } : {}),
+  });
+}
+
+/**
+ * Fingerprint of a request, excluding its idempotency key
+ */
+function requestHash(tool: string, params: { idempotency_key?: string }): string {
+  const { idempotency_key: _key, ...rest } = params;
+  return createHash('sha256').update(JSON.stringify({ tool, ...rest })).digest('hex');
+}
+
+/**
+ * Result of an earlier request made with the same idempotency key
+ */
+async function replayed(
+  tool: string,
+  operatorId: string,
+  params: { idempotency_key?: string }
+): Promise<ToolOutput<HoldResult> | undefined> {
+  if (!params.idempotency_key) return undefined;
+  
+  const previous = await getHoldStore().getIdempotencyRecord(operatorId, params.idempotency_key);
+  if (!previous) return undefined;
+  
+  if (previous.request_hash !== requestHash(tool, params)) {
+    throw new ConflictError('idempotency_key was already used for a different request', {
+      idempotency_key: params.idempotency_key,
+    });
+  }
+  
+  const hold = await getHoldStore().get(previous.hold_id);
+  if (!hold) {
+    throw new NotFoundError('Hold', previous.hold_id);
+  }
+  
+  return { data: await withHistory(hold), metadata: { idempotent_replay: true } };
+}
+
+/**
+ * Idempotency record for a request's outcome, if it has a key
+ */
+function idempotencyRecord(tool: string, params: { idempotency_key?: string }, hold: Hold): IdempotencyRecord | undefined {
+  if (!params.idempotency_key) return undefined;
+  
+  return {
+    operator_id: hold.operator_id,
+    key: params.idempotency_key,
+    request_hash: requestHash(tool, params),
+    hold_id: hold.id,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Store the outcome of a request made with an idempotency key
+ */
+async function remember(tool: string, params: { idempotency_key?: string }, hold: Hold): Promise<void> {
+  const record = idempotencyRecord(tool, params, hold);
+  if (record) {
+    await getHoldStore().putIdempotencyRecord(record);
+  }
+}
+
+/**
+ * Hold with its audit trail, as returned by the tools
+ */
+async function withHistory(hold: Hold): Promise<HoldResult> {
+  const events = await getHoldStore().listEvents(hold.id);
+  
+  return {
+    ...hold,
+    history: events.map(({ hold_id: _holdId, ...event }) => event),
+  };
+}
@@ -4,15 +4,11 @@
  * Central registry of all MCP tools with their schemas and implementations
  */
 
-import {
-  SearchCoursesSchema,
-  GetCourseDetailsSchema,
-  GetRecommendedCoursesSchema,
-  SearchAccommodationsSchema,
-  GetAccommodationDetailsSchema,
-  GetSupplierRatesSchema,
-  HasNegotiatedRateSchema,
-} from '../types/tools.js';
+import { toJsonSchema } from '../utils/schema.js';
+import { toolResultSchema } from '../types/tools.js';
+import { hasScope } from '../utils/auth.js';
+import type { ToolContext } from '../utils/auth.js';
+import type { ToolDefinition } from './define.js';
 
 import {
   searchCourses,
@@ -25,93 +21,86 @@ import {
   searchAccommodations,
   getAccommodationDetails,
   getGolfResorts,
+  findAccommodationByName,
 } from './accommodations.js';
 
 import {
   getSupplierRates,
   hasNegotiatedRate,
   getOperatorSuppliers,
+  getEffectivePrice,
 } from './rates.js';
 
-/**
- * Tool definition interface
- */
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  inputSchema: any;
-  execute: (params: any) => Promise<any>;
-}
+import {
+  upsertSupplierRate,
+  expireSupplierRate,
+  bulkImportSupplierRates,
+  importRateSheet,
+  exportRateSheet,
+} from './rateManagement.js';
+
+import { buildTripQuote } from './quotes.js';
+
+import { planItinerary } from './itinerary.js';
+
+import {
+  checkTeeTimeAvailability,
+  checkRoomAvailability,
+} from './availability.js';
+
+import {
+  createHold,
+  extendHold,
+  releaseHold,
+  confirmBooking,
+} from './holds.js';
+
+export type { ToolDefinition } from './define.js';
 
 /**
  * All available MCP tools
  */
 export const tools: ToolDefinition[] = [
   // Course Tools
-  {
-    name: 'search_courses',
-    description: 'Search for golf courses by region, type, and price range. Returns a list of courses with basic information.',
-    inputSchema: SearchCoursesSchema,
-    execute: searchCourses,
-  },
-  {
-    name: 'get_course_details',
-    description: 'Get comprehensive details about a specific golf course including pricing, features, and contact information.',
-    inputSchema: GetCourseDetailsSchema,
-    execute: getCourseDetails,
-  },
-  {
-    name: 'get_recommended_courses',
-    description: 'Get AI-recommended courses for a region based on budget tier (budget/standard/luxury). Returns top-rated courses in price range.',
-    inputSchema: GetRecommendedCoursesSchema,
-    execute: getRecommendedCourses,
-  },
-  {
-    name: 'find_course_by_name',
-    description: 'Find courses by name using fuzzy search. Useful when user mentions specific course names.',
-    inputSchema: { courseName: { type: 'string' } },
-    execute: (params: { courseName: string }) => findCourseByName(params.courseName),
-  },
+  searchCourses,
+  getCourseDetails,
+  getRecommendedCourses,
+  findCourseByName,
   
   // Accommodation Tools
-  {
-    name: 'search_accommodations',
-    description: 'Search for hotels and accommodations by region, amenities, and price range.',
-    inputSchema: SearchAccommodationsSchema,
-    execute: searchAccommodations,
-  },
-  {
-    name: 'get_accommodation_details',
-    description: 'Get detailed information about a specific accommodation including rooms, amenities, and rates.',
-    inputSchema: GetAccommodationDetailsSchema,
-    execute: getAccommodationDetails,
-  },
-  {
-    name: 'get_golf_resorts',
-    description: 'Find golf resorts (accommodations with on-site golf courses) perfect for stay-and-play packages.',
-    inputSchema: { region: { type: 'string', optional: true } },
-    execute: (params: { region?: string }) => getGolfResorts(params?.region),
-  },
+  searchAccommodations,
+  getAccommodationDetails,
+  getGolfResorts,
+  findAccommodationByName,
   
   // Rate & Supplier Tools
-  {
-    name: 'get_supplier_rates',
-    description: "Get tour operator's negotiated rates with suppliers (courses, hotels, etc). Always check this for cost savings!",
-    inputSchema: GetSupplierRatesSchema,
-    execute: getSupplierRates,
-  },
-  {
-    name: 'has_negotiated_rate',
-    description: 'Quick check if operator has a special negotiated rate with a specific supplier.',
-    inputSchema: HasNegotiatedRateSchema,
-    execute: hasNegotiatedRate,
-  },
-  {
-    name: 'get_operator_suppliers',
-    description: "List all of an operator's supplier relationships and negotiated rates.",
-    inputSchema: { operatorId: { type: 'string' } },
-    execute: (params: { operatorId: string }) => getOperatorSuppliers(params.operatorId),
-  },
+  getSupplierRates,
+  hasNegotiatedRate,
+  getOperatorSuppliers,
+  getEffectivePrice,
+  
+  // Rate Management Tools
+  upsertSupplierRate,
+  expireSupplierRate,
+  bulkImportSupplierRates,
+  importRateSheet,
+  exportRateSheet,
+  
+  // Quote Tools
+  buildTripQuote,
+  
+  // Itinerary Tools
+  planItinerary,
+  
+  // Availability Tools
+  checkTeeTimeAvailability,
+  checkRoomAvailability,
+  
+  // Booking Tools
+  createHold,
+  extendHold,
+  releaseHold,
+  confirmBooking,
 ];
 
 /**
@@ -122,13 +111,13 @@ export function getTool(name: string): ToolDefinition | undefined {
 }
 
 /**
- * List all available tools
+ * List the tools available to a caller with their input and output JSON Schema
  */
-export function listTools() {
-  return tools.map(t => ({
+export function listTools(context: ToolContext = {}) {
+  return tools.filter(t => hasScope(context, t.scope)).map(t => ({
     name: t.name,
     description: t.description,
-    inputSchema: t.inputSchema,
+    inputSchema: toJsonSchema(t.inputSchema),
+    outputSchema: toJsonSchema(toolResultSchema(t.outputSchema)),
   }));
 }
-
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, filtered by the calls the planner makes; like PostgREST,
+// range filters never match null
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  interface Query {
+    select(): Query;
+    eq(column: string, value: unknown): Query;
+    in(column: string, values: unknown[]): Query;
+    ilike(column: string, pattern: string): Query;
+    gte(column: string, value: number): Query;
+    lt(column: string, value: number): Query;
+    then(resolve: (response: { data: Row[]; error: null }) => unknown): unknown;
+  }
+  const number = (row: Row, column: string) => (typeof row[column] === 'number' ? row[column] as number : null);
+  const query = (rows: Row[]): Query => ({
+    select: () => query(rows),
+    eq: (column, value) => query(rows.filter(r => r[column] === value)),
+    in: (column, values) => query(rows.filter(r => values.includes(r[column]))),
+    ilike: (column, pattern) => query(rows.filter(r =>
+      String(r[column]).toLowerCase().includes(pattern.replace(/%/g, '').toLowerCase()))),
+    gte: (column, value) => query(rows.filter(r => (number(r, column) ?? -Infinity) >= value)),
+    lt: (column, value) => query(rows.filter(r => (number(r, column) ?? Infinity) < value)),
+    then: resolve => resolve({ data: rows, error: null }),
+  });
+  return { tables: {} as Record<string, Row[]>, query };
+});
+
+vi.mock('../utils/database.js', () => ({
+  getSupabaseClient: () => ({ from: (table: string) => db.query(db.tables[table] ?? []) }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+import { planItinerary } from './itinerary.js';
+import { ItinerarySchema } from '../types/tools.js';
+import type { Itinerary } from '../types/tools.js';
+import type { ToolContext } from '../utils/auth.js';
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const HOTEL = '6f1c5a3e-0000-4000-8000-000000000010';
+const NEAR = '6f1c5a3e-0000-4000-8000-000000000001';
+const FAR = '6f1c5a3e-0000-4000-8000-000000000002';
+const UNLOCATED = '6f1c5a3e-0000-4000-8000-000000000003';
+const PRICEY = '6f1c5a3e-0000-4000-8000-000000000004';
+
+const catalogue: ToolContext = {
+  principal: { keyId: 'chat', operatorId: OPERATOR, scopes: ['catalogue'] },
+};
+const sales: ToolContext = {
+  principal: { keyId: 'sales', operatorId: OPERATOR, scopes: ['catalogue', 'rates'] },
+};
+
+function course(id: string, name: string, feeCents: number | null, location: unknown) {
+  return {
+    id,
+    name,
+    region: 'Southwest Ireland',
+    course_type: 'links',
+    rating: 4.5,
+    green_fee_standard_cents: feeCents,
+    location,
+  };
+}
+
+async function plan(args: Record<string, unknown>, context: ToolContext = catalogue): Promise<Itinerary> {
+  const result = await planItinerary.execute({
+    region: 'southwest',
+    days: 2,
+    budget_tier: 'budget',
+    party_size: 4,
+    start_date: '2099-06-01',
+    ...args,
+  }, context);
+  if (!result.success) throw new Error(result.error);
+  return ItinerarySchema.parse(result.data);
+}
+
+beforeEach(() => {
+  db.tables = {
+    golf_courses: [
+      course(NEAR, 'Near Links', 10000, { lat: 52.01, lng: -9.5 }),
+      course(FAR, 'Far Links', 12000, { lat: 52.05, lng: -9.5 }),
+      course(UNLOCATED, 'Lost Links', 9000, null),
+      course(PRICEY, 'Grand Links', 50000, { lat: 52.0, lng: -9.5 }),
+    ],
+    accommodations: [{
+      id: HOTEL,
+      name: 'Harbour Hotel',
+      region: 'Southwest Ireland',
+      rating: 4,
+      standard_rate_cents: 20000,
+      location: { lat: 52.0, lng: -9.5 },
+    }],
+    operator_supplier_rates: [],
+  };
+});
+
+describe('plan_itinerary', () => {
+  it('plays the nearest courses in the budget tier from the base', async () => {
+    const itinerary = await plan({});
+    
+    expect(itinerary.schedule.map(d => d.rounds.map(r => r.course_id))).toEqual([[NEAR], [FAR]]);
+    expect(itinerary.bases).toMatchObject([{ accommodation_id: HOTEL, nights: 1, check_out: '2099-06-02' }]);
+  });
+  
+  it('totals green fees per golfer and rooms per night', async () => {
+    const { cost_estimate: cost } = await plan({});
+    
+    // (100.00 + 120.00) x 4 golfers; 200.00 x 2 rooms x 1 night
+    expect(cost).toMatchObject({
+      golf_cents: 88000,
+      accommodation_cents: 40000,
+      total_cents: 128000,
+      rack_total_cents: 128000,
+      savings_cents: 0,
+      per_person_cents: 32000,
+      rooms: 2,
+      negotiated_rates_applied: false,
+      incomplete: false,
+      unpriced: [],
+    });
+  });
+  
+  it('applies negotiated rates for keys with the rates scope', async () => {
+    db.tables.operator_supplier_rates = [{
+      id: '6f1c5a3e-0000-4000-8000-0000000000c1',
+      operator_id: OPERATOR,
+      supplier_id: NEAR,
+      supplier_type: 'golf_course',
+      rate_cents: null,
+      discount_percentage: 10,
+      valid_from: null,
+      valid_until: null,
+    }];
+    
+    const { cost_estimate: cost } = await plan({}, sales);
+    
+    expect(cost).toMatchObject({
+      golf_cents: 84000,
+      total_cents: 124000,
+      rack_total_cents: 128000,
+      savings_cents: 4000,
+      negotiated_rates_applied: true,
+    });
+  });
+  
+  it('leaves out totals that depend on an unpriced item', async () => {
+    db.tables.accommodations[0].standard_rate_cents = null;
+    
+    const itinerary = await plan({});
+    
+    expect(itinerary.cost_estimate).toMatchObject({
+      golf_cents: 88000,
+      accommodation_cents: null,
+      total_cents: null,
+      rack_total_cents: null,
+      savings_cents: null,
+      per_person_cents: null,
+      incomplete: true,
+      unpriced: ['Harbour Hotel'],
+    });
+    expect(itinerary.warnings).toContain('No price on record for Harbour Hotel; the cost estimate is incomplete');
+  });
+  
+  it('warns about courses left out for want of a location', async () => {
+    const itinerary = await plan({});
+    
+    expect(itinerary.schedule.flatMap(d => d.rounds.map(r => r.course_id))).not.toContain(UNLOCATED);
+    expect(itinerary.warnings).toContain('No location on record for Lost Links in southwest; left out of the plan');
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Itinerary Tools
+ * 
+ * MCP tools for planning multi-day golf trips
+ */
+
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { ValidationError } from '../utils/errors.js';
+import { hasScope, optionalOperatorId } from '../utils/auth.js';
+import { getPriceConverter } from '../utils/currency.js';
+import type { PriceConverter } from '../utils/currency.js';
+import {
+  addDays,
+  applyRate,
+  convertResolvedPrice,
+  fetchOperatorRates,
+  selectApplicableRate,
+  today,
+} from '../utils/pricing.js';
+import type { NegotiatedRate, ResolvedPrice } from '../utils/pricing.js';
+import { parseLocation, rankByDistance } from '../utils/geo.js';
+import { getBudgetTier } from '../config/budgetTiers.js';
+import type { PriceRange } from '../config/budgetTiers.js';
+import { defineTool } from './define.js';
+import {
+  PlanItinerarySchema,
+  ItinerarySchema,
+} from '../types/tools.js';
+import type { Itinerary, PlanItineraryParams } from '../types/tools.js';
+
+interface CandidateCourse {
+  id: string;
+  name: string;
+  course_type: string | null;
+  rating: number | null;
+  green_fee_standard_cents: number | null;
+  location: unknown;
+}
+
+interface CandidateAccommodation {
+  id: string;
+  name: string;
+  rating: number | null;
+  standard_rate_cents: number | null;
+  location: unknown;
+}
+
+type PlannedRound = CandidateCourse & { distance_km: number };
+
+/**
+ * Base and rounds chosen for one region
+ */
+interface RegionPlan {
+  region: string;
+  days: number;
+  base: CandidateAccommodation;
+  rounds: PlannedRound[];
+}
+
+/**
+ * Plan a multi-day golf trip
+ */
+export const planItinerary = defineTool({
+  name: 'plan_itinerary',
+  description: 'Plan a day-by-day golf trip across one or more regions: picks a base accommodation in each region and the courses within the budget tier that keep driving from the base shortest, without repeating courses unless allowed. Returns the schedule with a cost estimate (negotiated rates applied for keys with the rates scope).',
+  scope: 'catalogue',
+  inputSchema: PlanItinerarySchema,
+  outputSchema: ItinerarySchema,
+  handler: async (params, context) => {
+    const regions = params.regions ?? (params.region ? [params.region] : []);
+    
+    if (regions.length === 0) {
+      throw new ValidationError('Provide a region or regions to plan', [
+        { field: 'region', message: 'Set region or regions', code: 'missing_region' },
+      ]);
+    }
+    
+    if (regions.length > params.days) {
+      throw new ValidationError('Each region needs at least one day', [
+        { field: 'regions', message: `${regions.length} regions cannot fit in ${params.days} day(s)`, code: 'too_many_regions' },
+      ]);
+    }
+    
+    const operatorId = optionalOperatorId(params.operator_id, context);
+    const ratesOperatorId = hasScope(context, 'rates') ? operatorId : undefined;
+    const range = getBudgetTier(params.budget_tier, operatorId);
+    const startDate = params.start_date ?? today();
+    const warnings: string[] = [];
+    
+    const candidates = await Promise.all(regions.map(region => fetchCandidates(region, range)));
+    
+    // Regions are planned in order so later ones skip courses already played
+    const played = new Set<string>();
+    const plans = splitDays(params.days, regions.length).map((days, i) => {
+      const plan = planRegion(regions[i], days, candidates[i], params, played, warnings);
+      plan.rounds.forEach(round => played.add(round.id));
+      return plan;
+    });
+    
+    const rates = ratesOperatorId
+      ? await fetchOperatorRates(ratesOperatorId, [
+        ...new Set(plans.flatMap(p => [p.base.id, ...p.rounds.map(r => r.id)])),
+      ])
+      : [];
+    
+    return {
+      data: buildItinerary(plans, rates, getPriceConverter(params.currency), startDate, params, warnings, ratesOperatorId !== undefined),
+      converted: true,
+    };
+  },
+});
+
+/**
+ * Split trip days between regions as evenly as possible, earlier regions
+ * taking any remainder
+ */
+function splitDays(days: number, regionCount: number): number[] {
+  const base = Math.floor(days / regionCount);
+  return Array.from({ length: regionCount }, (_, i) => base + (i < days % regionCount ? 1 : 0));
+}
+
+/**
+ * Load the courses within the green fee band and the accommodations of a region
+ */
+async function fetchCandidates(
+  region: string,
+  range: PriceRange
+): Promise<{ courses: CandidateCourse[]; accommodations: CandidateAccommodation[] }> {
+  const supabase = getSupabaseClient();
+  let courseQuery = supabase
+    .from('golf_courses')
+    .select('id, name, course_type, rating, green_fee_standard_cents, location')
+    .ilike('region', `%${region}%`);
+  
+  if (range.min_cents !== undefined) {
+    courseQuery = courseQuery.gte('green_fee_standard_cents', range.min_cents);
+  }
+  
+  if (range.max_cents !== undefined) {
+    courseQuery = courseQuery.lt('green_fee_standard_cents', range.max_cents);
+  }
+  
+  const [courses, accommodations] = await Promise.all([
+    courseQuery,
+    supabase
+      .from('accommodations')
+      .select('id, name, rating, standard_rate_cents, location')
+      .ilike('region', `%${region}%`),
+  ]);
+  
+  return {
+    courses: unwrapQuery(courses) ?? [],
+    accommodations: unwrapQuery(accommodations) ?? [],
+  };
+}
+
+/**
+ * Pick the base and rounds for a region
+ * 
+ * Each accommodation is tried as the base with its nearest courses; the
+ * base with the least total driving wins, ties going to the higher rated.
+ */
+function planRegion(
+  region: string,
+  days: number,
+  candidates: { courses: CandidateCourse[]; accommodations: CandidateAccommodation[] },
+  params: PlanItineraryParams,
+  played: Set<string>,
+  warnings: string[]
+): RegionPlan {
+  const roundsNeeded = days * params.rounds_per_day;
+  const courses = params.allow_repeat_courses
+    ? candidates.courses
+    : candidates.courses.filter(c => !played.has(c.id));
+  const bases = candidates.accommodations.filter(a => parseLocation(a.location) !== null);
+  const unlocated = courses.filter(c => parseLocation(c.location) === null);
+  const field = params.regions ? 'regions' : 'region';
+  
+  if (courses.length === 0) {
+    throw new ValidationError(`No courses in ${region} within the ${params.budget_tier} budget tier`, [
+      { field, message: `No courses available in ${region}`, code: 'no_courses' },
+    ]);
+  }
+  
+  if (bases.length === 0) {
+    throw new ValidationError(`No accommodation with a known location in ${region}`, [
+      { field, message: `No base accommodation available in ${region}`, code: 'no_accommodation' },
+    ]);
+  }
+  
+  let best: { plan: RegionPlan; travelKm: number } | undefined;
+  for (const base of bases) {
+    const nearest = rankByDistance(courses, parseLocation(base.location)!);
+    if (nearest.length === 0) continue;
+    
+    const rounds = params.allow_repeat_courses
+      ? Array.from({ length: roundsNeeded }, (_, i) => nearest[i % nearest.length])
+      : nearest.slice(0, roundsNeeded);
+    const travelKm = rounds.reduce((sum, r) => sum + 2 * r.distance_km, 0);
+    
+    if (
+      !best
+      || rounds.length > best.plan.rounds.length
+      || (rounds.length === best.plan.rounds.length && (
+        travelKm < best.travelKm
+        || (travelKm === best.travelKm && (base.rating ?? 0) > (best.plan.base.rating ?? 0))
+      ))
+    ) {
+      best = { plan: { region, days, base, rounds }, travelKm };
+    }
+  }
+  
+  if (!best) {
+    throw new ValidationError(`No course in ${region} has a known location`, [
+      { field, message: `No locatable courses in ${region}`, code: 'no_courses' },
+    ]);
+  }
+  
+  // Distances cannot be worked out without a location, so such courses are
+  // left out of the plan
+  if (unlocated.length > 0) {
+    warnings.push(`No location on record for ${unlocated.map(c => c.name).join(', ')} in ${region}; left out of the plan`);
+  }
+  
+  if (best.plan.rounds.length < roundsNeeded) {
+    warnings.push(
+      `Only ${best.plan.rounds.length} distinct course(s) with a known location in ${region} for ${roundsNeeded} round(s); `
+      + 'set allow_repeat_courses to fill the remaining days'
+    );
+  }
+  
+  return best.plan;
+}
+
+/**
+ * Lay the region plans out day by day and price them in the requested
+ * currency
+ */
+function buildItinerary(
+  plans: RegionPlan[],
+  rates: NegotiatedRate[],
+  prices: PriceConverter,
+  startDate: string,
+  params: PlanItineraryParams,
+  warnings: string[],
+  negotiatedRatesApplied: boolean
+): Itinerary {
+  const rooms = Math.ceil(params.party_size / 2);
+  const price = (id: string, rackCents: number | null, date: string): ResolvedPrice =>
+    convertResolvedPrice(applyRate(rackCents, selectApplicableRate(rates, id, date)), prices);
+  const cost = { golf_cents: 0, accommodation_cents: 0, rack_total_cents: 0 };
+  const unpricedCourses = new Set<string>();
+  const unpricedBases = new Set<string>();
+  
+  const schedule: Itinerary['schedule'] = [];
+  const bases: Itinerary['bases'] = [];
+  let day = 0;
+  
+  for (const plan of plans) {
+    const firstDay = day;
+    
+    for (let d = 0; d < plan.days; d++, day++) {
+      const date = addDays(startDate, day);
+      const rounds = plan.rounds
+        .slice(d * params.rounds_per_day, (d + 1) * params.rounds_per_day)
+        .map(course => {
+          const fee = price(course.id, course.green_fee_standard_cents, date);
+          cost.golf_cents += fee.unit_price_cents * params.party_size;
+          cost.rack_total_cents += (fee.rack_price_cents ?? fee.unit_price_cents) * params.party_size;
+          if (fee.pricing_rule === 'unpriced') unpricedCourses.add(course.name);
+          
+          return {
+            course_id: course.id,
+            name: course.name,
+            course_type: course.course_type,
+            rating: course.rating,
+            distance_km: course.distance_km,
+            unit_price_cents: fee.unit_price_cents,
+            pricing_rule: fee.pricing_rule,
+          };
+        });
+      
+      schedule.push({
+        day: day + 1,
+        date,
+        region: plan.region,
+        accommodation_id: plan.base.id,
+        rounds,
+        travel_km: Math.round(rounds.reduce((sum, r) => sum + 2 * r.distance_km, 0) * 10) / 10,
+      });
+    }
+    
+    // Guests sleep at the base every night except after the final day
+    const nights = day === params.days ? plan.days - 1 : plan.days;
+    const checkIn = addDays(startDate, firstDay);
+    for (let n = 0; n < nights; n++) {
+      const night = price(plan.base.id, plan.base.standard_rate_cents, addDays(checkIn, n));
+      cost.accommodation_cents += night.unit_price_cents * rooms;
+      cost.rack_total_cents += (night.rack_price_cents ?? night.unit_price_cents) * rooms;
+      if (night.pricing_rule === 'unpriced') unpricedBases.add(plan.base.name);
+    }
+    
+    bases.push({
+      region: plan.region,
+      accommodation_id: plan.base.id,
+      name: plan.base.name,
+      rating: plan.base.rating,
+      check_in: checkIn,
+      check_out: addDays(checkIn, nights),
+      nights,
+      unit_price_cents: price(plan.base.id, plan.base.standard_rate_cents, checkIn).unit_price_cents,
+    });
+  }
+  
+  // A total missing some of its items would understate the trip, so totals
+  // that depend on an unpriced item are left out
+  const unpriced = [...unpricedCourses, ...unpricedBases];
+  const incomplete = unpriced.length > 0;
+  for (const name of unpriced) {
+    warnings.push(`No price on record for ${name}; the cost estimate is incomplete`);
+  }
+  
+  const totalCents = cost.golf_cents + cost.accommodation_cents;
+  
+  return {
+    start_date: startDate,
+    days: params.days,
+    party_size: params.party_size,
+    budget_tier: params.budget_tier,
+    bases,
+    schedule,
+    cost_estimate: {
+      golf_cents: unpricedCourses.size > 0 ? null : cost.golf_cents,
+      accommodation_cents: unpricedBases.size > 0 ? null : cost.accommodation_cents,
+      total_cents: incomplete ? null : totalCents,
+      rack_total_cents: incomplete ? null : cost.rack_total_cents,
+      savings_cents: incomplete ? null : Math.max(0, cost.rack_total_cents - totalCents),
+      per_person_cents: incomplete ? null : Math.round(totalCents / params.party_size),
+      rooms,
+      negotiated_rates_applied: negotiatedRatesApplied,
+      incomplete,
+      unpriced,
+    },
+    total_travel_km: Math.round(schedule.reduce((sum, d) => sum + d.travel_km, 0) * 10) / 10,
+    warnings,
+  };
+}
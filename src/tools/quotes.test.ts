@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, filtered by the eq and in calls the tools make
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  interface Query {
+    select(): Query;
+    eq(column: string, value: unknown): Query;
+    in(column: string, values: unknown[]): Query;
+    then(resolve: (response: { data: Row[]; error: null }) => unknown): unknown;
+  }
+  const query = (rows: Row[]): Query => ({
+    select: () => query(rows),
+    eq: (column: string, value: unknown) => query(rows.filter(r => r[column] === value)),
+    in: (column: string, values: unknown[]) => query(rows.filter(r => values.includes(r[column]))),
+    then: (resolve: (response: { data: Row[]; error: null }) => unknown) => resolve({ data: rows, error: null }),
+  });
+  return { tables: {} as Record<string, Row[]>, query };
+});
+
+vi.mock('../utils/database.js', () => ({
+  getSupabaseClient: () => ({ from: (table: string) => db.query(db.tables[table] ?? []) }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+import { buildTripQuote } from './quotes.js';
+import { TripQuoteSchema } from '../types/tools.js';
+import type { TripQuote } from '../types/tools.js';
+import type { ToolContext } from '../utils/auth.js';
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const COURSE = '6f1c5a3e-0000-4000-8000-000000000001';
+const HOTEL = '6f1c5a3e-0000-4000-8000-000000000002';
+
+const context: ToolContext = {
+  principal: { keyId: 'agent-key', operatorId: OPERATOR, scopes: ['rates'] },
+};
+
+function rate(id: string, supplierId: string, overrides: Record<string, unknown>) {
+  return {
+    id,
+    operator_id: OPERATOR,
+    supplier_id: supplierId,
+    supplier_type: supplierId === COURSE ? 'golf_course' : 'accommodation',
+    rate_cents: null,
+    discount_percentage: null,
+    valid_from: null,
+    valid_until: null,
+    ...overrides,
+  };
+}
+
+async function quote(args: Record<string, unknown>): Promise<TripQuote> {
+  const result = await buildTripQuote.execute({ party_size: 4, nights: 3, start_date: '2099-06-01', ...args }, context);
+  if (!result.success) throw new Error(result.error);
+  return TripQuoteSchema.parse(result.data);
+}
+
+beforeEach(() => {
+  db.tables = {
+    golf_courses: [{ id: COURSE, name: 'Lahinch', green_fee_standard_cents: 20000 }],
+    accommodations: [{ id: HOTEL, name: 'Adare Manor', standard_rate_cents: 30000 }],
+    operator_supplier_rates: [],
+  };
+});
+
+describe('build_trip_quote', () => {
+  it('prices each round on its play date', async () => {
+    db.tables.operator_supplier_rates = [rate('r1', COURSE, { rate_cents: 15000, valid_until: '2099-06-01' })];
+    
+    const result = await quote({ courses: [{ course_id: COURSE, day_offset: 0 }, { course_id: COURSE, day_offset: 2 }] });
+    
+    expect(result.line_items.map(i => [i.start_date, i.pricing_rule, i.unit_price_cents, i.total_cents])).toEqual([
+      ['2099-06-01', 'negotiated_rate', 15000, 60000],
+      ['2099-06-03', 'rack_rate', 20000, 80000],
+    ]);
+  });
+  
+  it('splits a stay into a line per run of nights priced by the same rate', async () => {
+    db.tables.operator_supplier_rates = [rate('r1', HOTEL, { discount_percentage: 10, valid_from: '2099-06-02' })];
+    
+    const result = await quote({ accommodations: [{ accommodation_id: HOTEL, rooms: 2 }] });
+    
+    expect(result.line_items.map(i => [i.start_date, i.end_date, i.quantity, i.unit_price_cents])).toEqual([
+      ['2099-06-01', '2099-06-02', 2, 30000],
+      ['2099-06-02', '2099-06-04', 4, 27000],
+    ]);
+  });
+  
+  it('adds up the lines into totals', async () => {
+    db.tables.operator_supplier_rates = [rate('r1', COURSE, { rate_cents: 15000 })];
+    
+    const { totals } = await quote({
+      courses: [{ course_id: COURSE }],
+      accommodations: [{ accommodation_id: HOTEL, rooms: 2 }],
+    });
+    
+    expect(totals).toMatchObject({
+      golf_cents: 60000,
+      accommodation_cents: 180000,
+      total_cents: 240000,
+      rack_total_cents: 260000,
+      savings_cents: 20000,
+      per_person_cents: 60000,
+      incomplete: false,
+      unpriced: [],
+    });
+  });
+  
+  it('reports the rack total when a negotiated rate is above rack', async () => {
+    db.tables.operator_supplier_rates = [rate('r1', COURSE, { rate_cents: 25000 })];
+    
+    const { line_items: [line], totals } = await quote({ courses: [{ course_id: COURSE }] });
+    
+    expect(line).toMatchObject({ total_cents: 100000, rack_total_cents: 80000, savings_cents: 0 });
+    expect(totals).toMatchObject({ total_cents: 100000, rack_total_cents: 80000, savings_cents: 0 });
+  });
+  
+  it('leaves out totals that include an unpriced line', async () => {
+    db.tables.accommodations = [{ id: HOTEL, name: 'Adare Manor', standard_rate_cents: null }];
+    
+    const result = await quote({
+      courses: [{ course_id: COURSE }],
+      accommodations: [{ accommodation_id: HOTEL, rooms: 2 }],
+    });
+    
+    expect(result.totals).toMatchObject({
+      golf_cents: 80000,
+      accommodation_cents: null,
+      total_cents: null,
+      rack_total_cents: null,
+      savings_cents: null,
+      per_person_cents: null,
+      incomplete: true,
+      unpriced: ['Adare Manor'],
+    });
+    expect(result.warnings).toEqual(['No room rate on record for Adare Manor; the quote total is incomplete']);
+  });
+});
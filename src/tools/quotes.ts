@@ -0,0 +1,243 @@
+/**
+ * Quote Tools
+ * 
+ * MCP tools for pricing golf trips with an operator's negotiated rates
+ */
+
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { resolveOperatorId } from '../utils/auth.js';
+import { getPriceConverter } from '../utils/currency.js';
+import {
+  addDays,
+  applyRate,
+  convertResolvedPrice,
+  fetchOperatorRates,
+  selectApplicableRate,
+  today,
+} from '../utils/pricing.js';
+import { defineTool } from './define.js';
+import {
+  BuildTripQuoteSchema,
+  TripQuoteSchema,
+} from '../types/tools.js';
+import type { QuoteLineItem } from '../types/tools.js';
+
+interface PricedSupplier {
+  id: string;
+  name: string;
+  rack_price_cents: number | null;
+}
+
+/**
+ * Build an itemized trip quote
+ */
+export const buildTripQuote = defineTool({
+  name: 'build_trip_quote',
+  description: "Build an itemized golf trip quote (green fees and rooms) using the operator's negotiated rates. Returns per-line and per-person costs with savings versus rack rates.",
+  scope: 'rates',
+  inputSchema: BuildTripQuoteSchema,
+  outputSchema: TripQuoteSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    const startDate = params.start_date ?? today();
+    
+    if (params.courses.length === 0 && params.accommodations.length === 0) {
+      throw new ValidationError('A quote needs at least one course or accommodation', [
+        { field: 'courses', message: 'Provide courses and/or accommodations', code: 'empty_quote' },
+      ]);
+    }
+    
+    const courseIds = [...new Set(params.courses.map(c => c.course_id))];
+    const accommodationIds = [...new Set(params.accommodations.map(a => a.accommodation_id))];
+    
+    const [courses, accommodations, rates] = await Promise.all([
+      fetchCourses(courseIds),
+      fetchAccommodations(accommodationIds),
+      fetchOperatorRates(operatorId, [...courseIds, ...accommodationIds]),
+    ]);
+    
+    // Lines are priced in the requested currency so the totals add them up
+    const prices = getPriceConverter(params.currency);
+    const lineItems: QuoteLineItem[] = [];
+    const warnings: string[] = [];
+    const unpriced = new Set<string>();
+    
+    // Green fees: every golfer plays every round, priced on the day it is
+    // played so contracts starting or ending mid-trip are respected
+    for (const item of params.courses) {
+      const course = courses.get(item.course_id)!;
+      const playDate = addDays(startDate, item.day_offset);
+      const price = convertResolvedPrice(applyRate(
+        course.rack_price_cents,
+        selectApplicableRate(rates, course.id, playDate)
+      ), prices);
+      const quantity = item.rounds * params.party_size;
+      
+      if (price.pricing_rule === 'unpriced') {
+        unpriced.add(course.name);
+        warnings.push(`No green fee on record for ${course.name}; the quote total is incomplete`);
+      }
+      
+      lineItems.push({
+        ...toLineItem('golf_course', course, price, 'round', quantity,
+          `${item.rounds} round(s) x ${params.party_size} golfer(s)`),
+        start_date: playDate,
+        end_date: playDate,
+      });
+    }
+    
+    // Rooms: priced night by night so contracts expiring mid-stay are respected
+    for (const item of params.accommodations) {
+      const accommodation = accommodations.get(item.accommodation_id)!;
+      const rooms = item.rooms ?? Math.ceil(params.party_size / 2);
+      const nights = item.nights ?? params.nights;
+      
+      if (nights < 1) {
+        throw new ValidationError(`No nights to price at ${accommodation.name}`, [
+          { field: 'nights', message: 'Set trip nights or accommodation nights', code: 'too_small' },
+        ]);
+      }
+      
+      const checkIn = addDays(startDate, item.check_in_offset_nights);
+      const nightly = Array.from({ length: nights }, (_, night) => convertResolvedPrice(applyRate(
+        accommodation.rack_price_cents,
+        selectApplicableRate(rates, accommodation.id, addDays(checkIn, night))
+      ), prices));
+      
+      // One line per run of consecutive nights priced by the same rule
+      let segmentStart = 0;
+      for (let night = 1; night <= nights; night++) {
+        const price = nightly[segmentStart];
+        if (night < nights && nightly[night].rate_id === price.rate_id) continue;
+        
+        const segmentNights = night - segmentStart;
+        if (price.pricing_rule === 'unpriced') {
+          unpriced.add(accommodation.name);
+          warnings.push(`No room rate on record for ${accommodation.name}; the quote total is incomplete`);
+        }
+        
+        lineItems.push({
+          ...toLineItem('accommodation', accommodation, price, 'room_night', rooms * segmentNights,
+            `${rooms} room(s) x ${segmentNights} night(s)`),
+          start_date: addDays(checkIn, segmentStart),
+          end_date: addDays(checkIn, night),
+        });
+        segmentStart = night;
+      }
+    }
+    
+    // A total missing some of its lines would understate the trip, so totals
+    // that include an unpriced line are left out
+    const sum = (items: QuoteLineItem[], pick: (i: QuoteLineItem) => number) =>
+      items.some(i => i.pricing_rule === 'unpriced') ? null : items.reduce((total, i) => total + pick(i), 0);
+    const golfCents = sum(lineItems.filter(i => i.supplier_type === 'golf_course'), i => i.total_cents);
+    const accommodationCents = sum(lineItems.filter(i => i.supplier_type === 'accommodation'), i => i.total_cents);
+    const totalCents = sum(lineItems, i => i.total_cents);
+    const rackTotalCents = sum(lineItems, i => i.rack_total_cents);
+    
+    return {
+      data: {
+        operator_id: operatorId,
+        party_size: params.party_size,
+        nights: params.nights,
+        start_date: startDate,
+        line_items: lineItems,
+        totals: {
+          golf_cents: golfCents,
+          accommodation_cents: accommodationCents,
+          total_cents: totalCents,
+          rack_total_cents: rackTotalCents,
+          savings_cents: totalCents === null || rackTotalCents === null ? null : Math.max(0, rackTotalCents - totalCents),
+          per_person_cents: totalCents === null ? null : Math.round(totalCents / params.party_size),
+          incomplete: unpriced.size > 0,
+          unpriced: [...unpriced],
+        },
+        warnings: [...new Set(warnings)],
+      },
+      metadata: { line_items: lineItems.length },
+      converted: true,
+    };
+  },
+});
+
+/**
+ * Build a quote line from a resolved price
+ */
+function toLineItem(
+  supplierType: QuoteLineItem['supplier_type'],
+  supplier: PricedSupplier,
+  price: ReturnType<typeof applyRate>,
+  unit: QuoteLineItem['unit'],
+  quantity: number,
+  description: string
+): QuoteLineItem {
+  const totalCents = price.unit_price_cents * quantity;
+  const rackTotalCents = (price.rack_price_cents ?? price.unit_price_cents) * quantity;
+  
+  return {
+    supplier_type: supplierType,
+    supplier_id: supplier.id,
+    name: supplier.name,
+    description,
+    unit,
+    quantity,
+    unit_rack_price_cents: price.rack_price_cents,
+    unit_price_cents: price.unit_price_cents,
+    pricing_rule: price.pricing_rule,
+    rate_id: price.rate_id,
+    total_cents: totalCents,
+    rack_total_cents: rackTotalCents,
+    savings_cents: Math.max(0, rackTotalCents - totalCents),
+  };
+}
+
+/**
+ * Load courses by ID, failing if any is missing
+ */
+async function fetchCourses(ids: string[]): Promise<Map<string, PricedSupplier>> {
+  if (ids.length === 0) return new Map();
+  
+  const rows = unwrapQuery(
+    await getSupabaseClient()
+      .from('golf_courses')
+      .select('id, name, green_fee_standard_cents')
+      .in('id', ids)
+  ) ?? [];
+  
+  const byId = new Map(rows.map(r => [r.id as string, {
+    id: r.id as string,
+    name: r.name as string,
+    rack_price_cents: r.green_fee_standard_cents as number | null,
+  }]));
+  
+  const missing = ids.find(id => !byId.has(id));
+  if (missing) throw new NotFoundError('Course', missing);
+  
+  return byId;
+}
+
+/**
+ * Load accommodations by ID, failing if any is missing
+ */
+async function fetchAccommodations(ids: string[]): Promise<Map<string, PricedSupplier>> {
+  if (ids.length === 0) return new Map();
+  
+  const rows = unwrapQuery(
+    await getSupabaseClient()
+      .from('accommodations')
+      .select('id, name, standard_rate_cents')
+      .in('id', ids)
+  ) ?? [];
+  
+  const byId = new Map(rows.map(r => [r.id as string, {
+    id: r.id as string,
+    name: r.name as string,
+    rack_price_cents: r.standard_rate_cents as number | null,
+  }]));
+  
+  const missing = ids.find(id => !byId.has(id));
+  if (missing) throw new NotFoundError('Accommodation', missing);
+  
+  return byId;
+}
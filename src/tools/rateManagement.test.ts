@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, filtered by the eq and in calls the tools make
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  interface Query {
+    select(): Query;
+    eq(column: string, value: unknown): Query;
+    in(column: string, values: unknown[]): Query;
+    then(resolve: (response: { data: Row[]; error: null }) => unknown): unknown;
+  }
+  const query = (rows: Row[]): Query => ({
+    select: () => query(rows),
+    eq: (column: string, value: unknown) => query(rows.filter(r => r[column] === value)),
+    in: (column: string, values: unknown[]) => query(rows.filter(r => values.includes(r[column]))),
+    then: resolve => resolve({ data: rows, error: null }),
+  });
+  return { tables: {} as Record<string, Row[]>, query };
+});
+
+vi.mock('../utils/database.js', () => ({
+  getSupabaseClient: () => ({ from: (table: string) => db.query(db.tables[table] ?? []) }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+import { expireSupplierRate } from './rateManagement.js';
+import { addDays, today } from '../utils/pricing.js';
+import type { ToolContext } from '../utils/auth.js';
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const COURSE = '6f1c5a3e-0000-4000-8000-000000000001';
+const RATE = '6f1c5a3e-0000-4000-8000-0000000000c1';
+
+const context: ToolContext = {
+  principal: { keyId: 'agent-key', operatorId: OPERATOR, scopes: ['rate_management'] },
+};
+
+beforeEach(() => {
+  db.tables = {
+    golf_courses: [{ id: COURSE }],
+    operator_supplier_rates: [],
+  };
+});
+
+describe('expire_supplier_rate', () => {
+  it('refuses to end a rate before it starts', async () => {
+    const startsOn = addDays(today(), 30);
+    db.tables.operator_supplier_rates = [{
+      id: RATE,
+      operator_id: OPERATOR,
+      supplier_id: COURSE,
+      supplier_type: 'golf_course',
+      rate_cents: 15000,
+      discount_percentage: null,
+      valid_from: startsOn,
+      valid_until: null,
+      notes: null,
+    }];
+    
+    const result = await expireSupplierRate.execute({ rate_id: RATE }, context);
+    
+    expect(result).toMatchObject({
+      success: false,
+      code: 'validation',
+      error: 'Rate has not started yet',
+      details: { fields: [{ field: 'valid_until', code: 'rate_not_started' }] },
+    });
+  });
+});
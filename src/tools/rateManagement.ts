@@ -0,0 +1,177 @@
+/**
+ * Rate Management Tools
+ * 
+ * MCP tools for operators to maintain their negotiated supplier rates
+ */
+
+import { ValidationError } from '../utils/errors.js';
+import { resolveOperatorId } from '../utils/auth.js';
+import { addDays, today } from '../utils/pricing.js';
+import { applyRatePlan, checkRateChanges, planRateChanges } from '../utils/rateChanges.js';
+import { diffRateSheet, exportRateSheet as buildRateSheet } from '../utils/rateSheets.js';
+import { getPriceConverter } from '../utils/currency.js';
+import { defineTool } from './define.js';
+import {
+  UpsertSupplierRateSchema,
+  ExpireSupplierRateSchema,
+  BulkImportSupplierRatesSchema,
+  SupplierRateSchema,
+  RateImportResultSchema,
+  ImportRateSheetSchema,
+  ExportRateSheetSchema,
+  RateSheetImportSchema,
+  RateSheetExportSchema,
+} from '../types/tools.js';
+
+/**
+ * Create or update one negotiated rate
+ */
+export const upsertSupplierRate = defineTool({
+  name: 'upsert_supplier_rate',
+  description: "Create a negotiated rate with a supplier, or update one by rate_id (fields left out keep their values). A rate has either rate_cents or discount_percentage, and its validity window may not overlap the operator's other rates for the same supplier.",
+  scope: 'rate_management',
+  inputSchema: UpsertSupplierRateSchema,
+  outputSchema: SupplierRateSchema,
+  handler: async (params, context) => {
+    // rate_cents has already been converted from `currency` by defineTool
+    const { operator_id: requested, currency: _currency, ...change } = params;
+    const operatorId = resolveOperatorId(requested, context);
+    const plan = await planRateChanges(operatorId, [change]);
+    
+    if (plan.unchanged.length > 0) {
+      return { data: plan.unchanged[0], metadata: { action: 'unchanged' } };
+    }
+    
+    const [rate] = await applyRatePlan(operatorId, plan);
+    return { data: rate, metadata: { action: plan.created.length > 0 ? 'created' : 'updated' } };
+  },
+});
+
+/**
+ * End a negotiated rate early
+ */
+export const expireSupplierRate = defineTool({
+  name: 'expire_supplier_rate',
+  description: 'End a negotiated rate by bringing its valid_until forward, by default to yesterday so it no longer applies from today. The rate is kept for reference. A rate that has not started yet cannot be expired before its start; change its dates with upsert_supplier_rate instead.',
+  scope: 'rate_management',
+  inputSchema: ExpireSupplierRateSchema,
+  outputSchema: SupplierRateSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    const validUntil = params.valid_until ?? addDays(today(), -1);
+    const { plan, fields } = await checkRateChanges(operatorId, [{ rate_id: params.rate_id, valid_until: validUntil }]);
+    const [change] = plan.updated;
+    const current = change?.before ?? plan.unchanged[0];
+    
+    // A rate that has not started cannot end before it starts; without this
+    // the caller would only see an invalid date range
+    const startsOn = current.valid_from?.slice(0, 10);
+    if (startsOn && startsOn > validUntil) {
+      throw new ValidationError('Rate has not started yet', [
+        {
+          field: 'valid_until',
+          message: `Rate starts on ${startsOn}, after ${validUntil}; use upsert_supplier_rate to change its dates`,
+          code: 'rate_not_started',
+        },
+      ]);
+    }
+    
+    if (fields.length > 0) {
+      throw new ValidationError('Invalid supplier rates', fields);
+    }
+    
+    if (!change) {
+      return { data: current, metadata: { action: 'unchanged' } };
+    }
+    
+    const { before } = change;
+    if (before.valid_until && before.valid_until.slice(0, 10) < validUntil) {
+      throw new ValidationError('Expiring a rate cannot extend it', [
+        {
+          field: 'valid_until',
+          message: `Rate already ends on ${before.valid_until.slice(0, 10)}; use upsert_supplier_rate to extend it`,
+          code: 'extends_rate',
+        },
+      ]);
+    }
+    
+    const [rate] = await applyRatePlan(operatorId, plan);
+    return { data: rate, metadata: { action: 'expired', previous_valid_until: before.valid_until } };
+  },
+});
+
+/**
+ * Create and update many negotiated rates at once
+ */
+export const bulkImportSupplierRates = defineTool({
+  name: 'bulk_import_supplier_rates',
+  description: 'Create rates (rows without rate_id) and update rates (rows with rate_id) in one batch, e.g. a new season of contracts. Every row is validated first and nothing is saved unless all are valid; errors name the row (rates.N.field).',
+  scope: 'rate_management',
+  inputSchema: BulkImportSupplierRatesSchema,
+  outputSchema: RateImportResultSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    // Only top-level arguments are converted by defineTool, so rows are
+    // brought to the base currency here
+    const prices = getPriceConverter(params.currency);
+    const changes = params.rates.map(rate => typeof rate.rate_cents === 'number'
+      ? { ...rate, rate_cents: prices.toBase(rate.rate_cents) }
+      : rate);
+    const plan = await planRateChanges(operatorId, changes, i => `rates.${i}.`);
+    const rates = await applyRatePlan(operatorId, plan);
+    
+    return {
+      data: {
+        created: plan.created.length,
+        updated: plan.updated.length,
+        unchanged: plan.unchanged.length,
+        rates,
+      },
+    };
+  },
+});
+
+/**
+ * Diff a supplier's CSV rate sheet against current rates, and apply it
+ */
+export const importRateSheet = defineTool({
+  name: 'import_rate_sheet',
+  description: "Import a supplier's CSV rate sheet. Supplier names are fuzzy-matched to courses and accommodations, and each row is compared with the operator's current rates. By default this is a dry run that returns the diff (create, update, unchanged or invalid per row); call again with apply: true to save it once no row is invalid.",
+  scope: 'rate_management',
+  inputSchema: ImportRateSheetSchema,
+  outputSchema: RateSheetImportSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    const { result, plan } = await diffRateSheet(operatorId, params.csv, {
+      prices: getPriceConverter(params.currency),
+      minScore: params.min_match_score,
+    });
+    
+    if (!params.apply) {
+      return { data: result };
+    }
+    
+    const errors = result.rows.flatMap(row => row.errors);
+    if (errors.length > 0) {
+      throw new ValidationError(`Rate sheet has ${result.summary.invalid} invalid rows; nothing was saved`, errors);
+    }
+    
+    await applyRatePlan(operatorId, plan);
+    return { data: { ...result, applied: true } };
+  },
+});
+
+/**
+ * Export current rates as a CSV rate sheet
+ */
+export const exportRateSheet = defineTool({
+  name: 'export_rate_sheet',
+  description: "Export the operator's negotiated rates as a CSV rate sheet (amounts in `currency`, default EUR), which can be edited and brought back with import_rate_sheet in the same currency.",
+  scope: 'rate_management',
+  inputSchema: ExportRateSheetSchema,
+  outputSchema: RateSheetExportSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    return { data: await buildRateSheet(operatorId, getPriceConverter(params.currency)) };
+  },
+});
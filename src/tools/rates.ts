@@ -4,169 +4,337 @@
  * MCP tools for accessing negotiated rates and supplier relationships
  */
 
-import { getSupabaseClient } from '../utils/database.js';
-import { getCached, setCached } from '../utils/cache.js';
-import { logger } from '../utils/logger.js';
-import type {
-  GetSupplierRatesParams,
-  HasNegotiatedRateParams,
-  ToolResult,
+import { z } from 'zod';
+import { getSupabaseClient, unwrapQuery } from '../utils/database.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { resolveOperatorId } from '../utils/auth.js';
+import {
+  addDays,
+  applyRate,
+  compareRatePrecedence,
+  daysBetween,
+  fetchOperatorRates,
+  isRateValidDuring,
+  isRateValidOn,
+  selectApplicableRate,
+  toEffectivePrice,
+  today,
+} from '../utils/pricing.js';
+import type { EffectivePrice, NegotiatedRate } from '../utils/pricing.js';
+import { RATE_COLUMNS } from '../utils/rateChanges.js';
+import { decodeCursor, pageInfo, paginate } from '../utils/pagination.js';
+import { getPriceConverter } from '../utils/currency.js';
+import type { PriceConverter } from '../utils/currency.js';
+import { defineTool } from './define.js';
+import {
+  GetSupplierRatesSchema,
+  HasNegotiatedRateSchema,
+  GetOperatorSuppliersSchema,
+  SupplierRateSchema,
+  NegotiatedRateCheckSchema,
+  OperatorSupplierSchema,
+  GetEffectivePriceSchema,
+  EffectivePriceResultSchema,
 } from '../types/tools.js';
+import type { RateExpiry, SupplierRate } from '../types/tools.js';
 
 /**
  * Get operator's negotiated supplier rates
  */
-export async function getSupplierRates(
-  params: GetSupplierRatesParams
-): Promise<ToolResult> {
-  const startTime = Date.now();
-  
-  try {
-    const cacheKey = `rates:${params.operator_id}:${params.supplier_type || 'all'}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
+export const getSupplierRates = defineTool({
+  name: 'get_supplier_rates',
+  description: "Get tour operator's negotiated rates with suppliers (courses, hotels, etc) valid on a travel date, or across a travel date range. Always check this for cost savings!",
+  scope: 'rates',
+  inputSchema: GetSupplierRatesSchema,
+  outputSchema: z.array(SupplierRateSchema),
+  cache: {
+    key: (params, context) => [
+      'rates',
+      resolveOperatorId(params.operator_id, context),
+      params.supplier_type || 'all',
+      params.travel_date ?? today(),
+      params.travel_end_date ?? '',
+      params.expiry_warning_days,
+      params.limit,
+      params.cursor ?? '',
+    ].join(':'),
+    ttlSeconds: 600, // Cache for 10 minutes
+  },
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    const travelDate = params.travel_date ?? today();
+    const travelEndDate = params.travel_end_date;
+    
+    if (travelEndDate && travelEndDate < travelDate) {
+      throw new ValidationError('travel_end_date must not be before travel_date', [
+        { field: 'travel_end_date', message: 'Must be on or after travel_date', code: 'invalid_date_range' },
+      ]);
     }
     
     const supabase = getSupabaseClient();
     let query = supabase
       .from('operator_supplier_rates')
-      .select(`
-        id,
-        operator_id,
-        supplier_id,
-        supplier_type,
-        rate_cents,
-        discount_percentage,
-        valid_from,
-        valid_until,
-        notes
-      `)
-      .eq('operator_id', params.operator_id);
+      .select(RATE_COLUMNS)
+      .eq('operator_id', operatorId);
     
     if (params.supplier_type && params.supplier_type !== 'any') {
       query = query.eq('supplier_type', params.supplier_type);
     }
     
-    const { data, error } = await query;
+    const rows: SupplierRate[] = unwrapQuery(await query) ?? [];
     
-    if (error) {
-      logger.error('getSupplierRates failed', { error, params });
-      return {
-        success: false,
-        error: `Database error: ${error.message}`,
-      };
-    }
+    // A date range returns every rate in force during the trip (e.g. both
+    // sides of a season change); a single date returns the one rate per
+    // supplier that applies on that day
+    const applicable = travelEndDate
+      ? rows
+        .filter(r => isRateValidDuring(r, travelDate, travelEndDate))
+        .sort((a, b) => a.supplier_id.localeCompare(b.supplier_id)
+          || (a.valid_from ?? '').localeCompare(b.valid_from ?? '')
+          || a.id.localeCompare(b.id))
+      : [...new Set(rows.map(r => r.supplier_id))]
+        .map(supplierId => {
+          const valid = rows
+            .filter(r => r.supplier_id === supplierId && isRateValidOn(r, travelDate))
+            .sort(compareRatePrecedence);
+          if (valid.length === 0) return undefined;
+          
+          const [applicable, ...overlapping] = valid;
+          return overlapping.length > 0
+            ? { ...applicable, overlapping_rate_ids: overlapping.map(r => r.id) }
+            : applicable;
+        })
+        .filter((r): r is SupplierRate => r !== undefined)
+        .sort((a, b) => a.supplier_id.localeCompare(b.supplier_id));
     
-    await setCached(cacheKey, data, 600); // Cache for 10 minutes
-    
-    const duration = Date.now() - startTime;
-    logger.info('getSupplierRates completed', {
-      operator_id: params.operator_id,
-      rates_count: data?.length || 0,
-      duration_ms: duration,
-    });
+    const { page: data, pageInfo: page } = paginate(applicable, params, params.limit);
     
     return {
-      success: true,
-      data: data || [],
+      data,
       metadata: {
-        count: data?.length || 0,
-        duration_ms: duration,
+        travel_date: travelDate,
+        ...(travelEndDate ? { travel_end_date: travelEndDate } : {}),
+        // Expiries cover every applicable rate, not just this page
+        upcoming_expiries: findUpcomingExpiries(applicable, rows, travelDate, params.expiry_warning_days),
+        ...page,
       },
     };
-  } catch (error) {
-    logger.error('getSupplierRates exception', { error, params });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
+  },
+});
 
 /**
  * Quick check if operator has negotiated rate with supplier
  */
-export async function hasNegotiatedRate(
-  params: HasNegotiatedRateParams
-): Promise<ToolResult> {
-  try {
+export const hasNegotiatedRate = defineTool({
+  name: 'has_negotiated_rate',
+  description: 'Quick check if operator has a special negotiated rate with a specific supplier on a travel date.',
+  scope: 'rates',
+  inputSchema: HasNegotiatedRateSchema,
+  outputSchema: NegotiatedRateCheckSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    const travelDate = params.travel_date ?? today();
     const supabase = getSupabaseClient();
-    const { data, error } = await supabase
-      .from('operator_supplier_rates')
-      .select('id, rate_cents, discount_percentage')
-      .eq('operator_id', params.operator_id)
-      .eq('supplier_id', params.supplier_id)
-      .single();
+    const rows: SupplierRate[] = unwrapQuery(
+      await supabase
+        .from('operator_supplier_rates')
+        .select(RATE_COLUMNS)
+        .eq('operator_id', operatorId)
+        .eq('supplier_id', params.supplier_id)
+    ) ?? [];
+    
+    const valid = rows.filter(r => isRateValidOn(r, travelDate)).sort(compareRatePrecedence);
     
-    if (error || !data) {
+    if (valid.length === 0) {
+      const next = rows
+        .filter(r => r.valid_from && r.valid_from.slice(0, 10) > travelDate)
+        .sort((a, b) => a.valid_from!.localeCompare(b.valid_from!))[0];
+      
       return {
-        success: true,
-        data: { has_rate: false },
+        data: {
+          has_rate: false,
+          travel_date: travelDate,
+          ...(next ? { next_rate: { rate_id: next.id, valid_from: next.valid_from } } : {}),
+        },
       };
     }
     
+    const [rate, ...overlapping] = valid;
     return {
-      success: true,
       data: {
         has_rate: true,
-        rate_cents: data.rate_cents,
-        discount_percentage: data.discount_percentage,
+        travel_date: travelDate,
+        rate_id: rate.id,
+        rate_cents: rate.rate_cents,
+        discount_percentage: rate.discount_percentage,
+        valid_from: rate.valid_from,
+        valid_until: rate.valid_until,
+        expires_in_days: rate.valid_until ? daysBetween(travelDate, rate.valid_until) : null,
+        ...(overlapping.length > 0 ? { overlapping_rate_ids: overlapping.map(r => r.id) } : {}),
       },
     };
-  } catch (error) {
-    logger.error('hasNegotiatedRate exception', { error, params });
+  },
+});
+
+/**
+ * Resolve the final price an operator pays a supplier on a date
+ */
+export const getEffectivePrice = defineTool({
+  name: 'get_effective_price',
+  description: "Get the final price an operator pays for a course green fee or accommodation night on a date, combining the rack rate with any negotiated rate, with savings and the rule that produced it.",
+  scope: 'rates',
+  inputSchema: GetEffectivePriceSchema,
+  outputSchema: EffectivePriceResultSchema,
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
+    const date = params.date ?? today();
+    const supplier = await findPricedSupplier(params.supplier_id, params.supplier_type);
+    
+    const rates = await fetchOperatorRates(operatorId, [supplier.id]);
+    const rate = selectApplicableRate(rates, supplier.id, date);
+    const price = toEffectivePrice(applyRate(supplier.rack_price_cents, rate));
+    
     return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      data: {
+        supplier_id: supplier.id,
+        supplier_type: supplier.type,
+        supplier_name: supplier.name,
+        date,
+        ...price,
+        rate: rate
+          ? {
+            rate_cents: rate.rate_cents,
+            discount_percentage: rate.discount_percentage,
+            valid_from: rate.valid_from,
+            valid_until: rate.valid_until,
+          }
+          : null,
+        explanation: explainPrice(price, rate, getPriceConverter(params.currency)),
+      },
     };
+  },
+});
+
+/**
+ * Look up a course or accommodation and its rack price
+ */
+async function findPricedSupplier(
+  supplierId: string,
+  supplierType?: 'golf_course' | 'accommodation'
+): Promise<{ id: string; type: 'golf_course' | 'accommodation'; name: string; rack_price_cents: number | null }> {
+  const supabase = getSupabaseClient();
+  
+  if (supplierType !== 'accommodation') {
+    const course = unwrapQuery<{ id: string; name: string; green_fee_standard_cents: number | null }>(
+      await supabase
+        .from('golf_courses')
+        .select('id, name, green_fee_standard_cents')
+        .eq('id', supplierId)
+        .maybeSingle()
+    );
+    if (course) {
+      return { id: course.id, type: 'golf_course', name: course.name, rack_price_cents: course.green_fee_standard_cents };
+    }
   }
+  
+  if (supplierType !== 'golf_course') {
+    const accommodation = unwrapQuery<{ id: string; name: string; standard_rate_cents: number | null }>(
+      await supabase
+        .from('accommodations')
+        .select('id, name, standard_rate_cents')
+        .eq('id', supplierId)
+        .maybeSingle()
+    );
+    if (accommodation) {
+      return { id: accommodation.id, type: 'accommodation', name: accommodation.name, rack_price_cents: accommodation.standard_rate_cents };
+    }
+  }
+  
+  throw new NotFoundError('Supplier', supplierId);
+}
+
+/**
+ * Human-readable account of how a price was derived, quoted in the
+ * caller's currency
+ */
+function explainPrice(price: EffectivePrice, rate: NegotiatedRate | undefined, prices: PriceConverter): string {
+  const money = (cents: number | null) => cents === null ? 'n/a' : prices.formatBase(cents);
+  
+  switch (price.pricing_rule) {
+    case 'negotiated_rate':
+      return `Negotiated rate of ${money(price.price_cents)} (rack ${money(price.rack_price_cents)})`;
+    case 'negotiated_discount':
+      return `${rate?.discount_percentage}% negotiated discount off rack ${money(price.rack_price_cents)}`;
+    case 'rack_rate':
+      return `No negotiated rate valid on this date; rack rate ${money(price.rack_price_cents)} applies`;
+    case 'unpriced':
+      return 'No rack price or negotiated rate on record';
+  }
+}
+
+/**
+ * Rates that end within `withinDays` of a date, flagging whether a
+ * follow-on rate for the same supplier is already in place
+ */
+function findUpcomingExpiries(
+  rates: SupplierRate[],
+  allRates: SupplierRate[],
+  fromDate: string,
+  withinDays: number
+): RateExpiry[] {
+  return rates
+    .filter(r => r.valid_until)
+    .map(r => ({ rate: r, daysRemaining: daysBetween(fromDate, r.valid_until!) }))
+    .filter(({ daysRemaining }) => daysRemaining >= 0 && daysRemaining <= withinDays)
+    .map(({ rate, daysRemaining }) => {
+      const dayAfter = addDays(rate.valid_until!.slice(0, 10), 1);
+      return {
+        rate_id: rate.id,
+        supplier_id: rate.supplier_id,
+        valid_until: rate.valid_until!,
+        days_remaining: daysRemaining,
+        renewed: allRates.some(o =>
+          o.supplier_id === rate.supplier_id && o.id !== rate.id && isRateValidOn(o, dayAfter)),
+      };
+    })
+    .sort((a, b) => a.days_remaining - b.days_remaining);
 }
 
 /**
  * Get operator's supplier relationships
  */
-export async function getOperatorSuppliers(
-  operatorId: string
-): Promise<ToolResult> {
-  try {
-    const cacheKey = `suppliers:${operatorId}`;
-    const cached = await getCached(cacheKey);
-    if (cached) {
-      return { success: true, data: cached, metadata: { cached: true } };
-    }
-    
+export const getOperatorSuppliers = defineTool({
+  name: 'get_operator_suppliers',
+  description: "List all of an operator's supplier relationships and negotiated rates.",
+  scope: 'rates',
+  inputSchema: GetOperatorSuppliersSchema,
+  outputSchema: z.array(OperatorSupplierSchema),
+  cache: {
+    key: (params, context) =>
+      `suppliers:${resolveOperatorId(params.operator_id, context)}:${params.limit}:${params.cursor ?? ''}`,
+    ttlSeconds: 600,
+  },
+  handler: async (params, context) => {
+    const operatorId = resolveOperatorId(params.operator_id, context);
     const supabase = getSupabaseClient();
-    const { data, error } = await supabase
+    const offset = decodeCursor(params.cursor, params);
+    const response = await supabase
       .from('operator_supplier_rates')
       .select(`
         supplier_id,
         supplier_type,
         rate_cents,
         discount_percentage
-      `)
-      .eq('operator_id', operatorId);
-    
-    if (error) {
-      return {
-        success: false,
-        error: `Database error: ${error.message}`,
-      };
-    }
-    
-    await setCached(cacheKey, data, 600);
+      `, { count: 'exact' })
+      .eq('operator_id', operatorId)
+      .order('supplier_id')
+      .order('id')
+      .range(offset, offset + params.limit - 1);
+    const data = unwrapQuery(response) ?? [];
     
     return {
-      success: true,
-      data: data || [],
-      metadata: { count: data?.length || 0 },
-    };
-  } catch (error) {
-    logger.error('getOperatorSuppliers exception', { error, operatorId });
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      data,
+      metadata: pageInfo(params, offset, data.length, response.count ?? data.length),
     };
-  }
-}
-
+  },
+});
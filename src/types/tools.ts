@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import type { ErrorCode } from '../utils/errors.js';
 
 /**
  * Base tool result interface
@@ -13,18 +14,91 @@ export interface ToolResult<T = any> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ErrorCode;
+  details?: Record<string, any>;
   metadata?: Record<string, any>;
 }
 
+/**
+ * Envelope schema for a tool result carrying `data`
+ * 
+ * Advertised as the MCP `outputSchema` and matched by `structuredContent`.
+ */
+export function toolResultSchema<T extends z.ZodTypeAny>(dataSchema: T) {
+  return z.object({
+    success: z.boolean().describe('Whether the tool succeeded'),
+    data: dataSchema.optional(),
+    error: z.string().optional().describe('Error message when success is false'),
+    code: z.string().optional().describe('Machine-readable error code when success is false'),
+    details: z.record(z.any()).optional().describe('Error details, e.g. field-level validation errors'),
+    metadata: z.record(z.any()).optional().describe('Counts, pagination cursors, timings and cache information'),
+  });
+}
+
+/**
+ * Currency parameter shared by every price-bearing tool
+ */
+export const CurrencySchema = z.string()
+  .regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code')
+  .optional()
+  .describe('ISO 4217 currency for prices and price filters (e.g. "USD"); defaults to EUR');
+
+/**
+ * Local time of day (HH:MM)
+ */
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+/**
+ * Idempotency key shared by the hold tools
+ */
+const IdempotencyKeySchema = z.string().min(8).max(128).optional()
+  .describe('Client-chosen unique key; retrying with the same key and arguments returns the original result instead of acting twice');
+
+/**
+ * `*_display` field added alongside each `*_cents` field
+ */
+type DisplayPriceShape<T extends z.ZodRawShape> = {
+  [K in keyof T as K extends `${infer Field}_cents` ? `${Field}_display` : never]: z.ZodOptional<z.ZodNullable<z.ZodString>>;
+} & {
+  currency: z.ZodOptional<z.ZodString>;
+};
+
+/**
+ * Extend an object schema with the display fields that currency conversion
+ * adds to it (see convertPrices in utils/currency.ts)
+ */
+export function withDisplayPrices<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  const display: z.ZodRawShape = {
+    currency: z.string().optional().describe('ISO 4217 currency of the prices in this object'),
+  };
+  
+  for (const key of Object.keys(schema.shape)) {
+    if (key.endsWith('_cents')) {
+      display[`${key.slice(0, -'_cents'.length)}_display`] = z.string().nullable().optional()
+        .describe(`${key} formatted for display (e.g. "$162.50")`);
+    }
+  }
+  
+  return schema.extend(display as DisplayPriceShape<T>);
+}
+
 /**
  * Course search parameters
  */
 export const SearchCoursesSchema = z.object({
   region: z.string().optional().describe('Region to search (e.g., "Southwest Ireland")'),
-  course_type: z.enum(['links', 'parkland', 'resort', 'heathland']).optional(),
-  min_price_cents: z.number().optional().describe('Minimum price in cents'),
-  max_price_cents: z.number().optional().describe('Maximum price in cents'),
-  limit: z.number().default(20).describe('Maximum number of results'),
+  course_type: z.enum(['links', 'parkland', 'resort', 'heathland']).optional().describe('Course type'),
+  min_price_cents: z.number().optional().describe('Minimum green fee in cents of `currency`'),
+  max_price_cents: z.number().optional().describe('Maximum green fee in cents of `currency`'),
+  near_accommodation_id: z.string().uuid().optional().describe('Find courses near this accommodation (results sorted nearest first)'),
+  radius_km: z.number().positive().optional().describe('With near_accommodation_id, only return courses within this distance'),
+  sort_by: z.enum(['rating', 'price_asc', 'price_desc', 'difficulty', 'name', 'distance']).optional().describe('Result order (default: distance with near_accommodation_id, otherwise rating); difficulty is easiest first'),
+  limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  include_effective_price: z.boolean().default(false).describe("Annotate each course with the operator's effective green fee (requires the rates scope)"),
+  operator_id: z.string().uuid().optional().describe("Operator for effective prices (defaults to the API key's operator)"),
+  price_date: z.string().date().optional().describe('Date for effective prices (YYYY-MM-DD); defaults to today'),
+  currency: CurrencySchema,
 });
 
 export type SearchCoursesParams = z.infer<typeof SearchCoursesSchema>;
@@ -34,6 +108,7 @@ export type SearchCoursesParams = z.infer<typeof SearchCoursesSchema>;
  */
 export const GetCourseDetailsSchema = z.object({
   course_id: z.string().uuid().describe('UUID of the golf course'),
+  currency: CurrencySchema,
 });
 
 export type GetCourseDetailsParams = z.infer<typeof GetCourseDetailsSchema>;
@@ -44,21 +119,64 @@ export type GetCourseDetailsParams = z.infer<typeof GetCourseDetailsSchema>;
 export const GetRecommendedCoursesSchema = z.object({
   region: z.string().describe('Target region'),
   budget_tier: z.enum(['budget', 'standard', 'luxury']).describe('Budget category'),
-  limit: z.number().default(10).describe('Maximum number of results'),
+  handicap_min: z.number().min(-10).max(54).optional().describe('Lowest handicap in the group; with handicap_max, scores how well course difficulty suits the group'),
+  handicap_max: z.number().min(-10).max(54).optional().describe('Highest handicap in the group'),
+  preferred_course_types: z.array(z.enum(['links', 'parkland', 'resort', 'heathland'])).optional().describe('Course types to favour'),
+  operator_id: z.string().uuid().optional().describe("Operator whose budget tiers and negotiated rates apply (defaults to the API key's operator)"),
+  travel_date: z.string().date().optional().describe('Date for negotiated rates (YYYY-MM-DD); defaults to today'),
+  sort_by: z.enum(['score', 'rating', 'price_asc', 'price_desc', 'difficulty', 'name']).default('score').describe('Result order; difficulty is easiest first'),
+  limit: z.number().int().min(1).max(100).default(10).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  currency: CurrencySchema,
 });
 
 export type GetRecommendedCoursesParams = z.infer<typeof GetRecommendedCoursesSchema>;
 
+/**
+ * Find course by name parameters
+ */
+export const FindCourseByNameSchema = z.object({
+  course_name: z.string().min(1).describe('Full, partial or misspelt course name (e.g., "Ballybunion", "Old Head Kinsale")'),
+  min_score: z.number().min(0).max(1).default(0.4).describe('Minimum match score (0-1) for a course to be returned'),
+  limit: z.number().int().min(1).max(100).default(10).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  currency: CurrencySchema,
+});
+
+export type FindCourseByNameParams = z.infer<typeof FindCourseByNameSchema>;
+
+/**
+ * Find accommodation by name parameters
+ */
+export const FindAccommodationByNameSchema = z.object({
+  accommodation_name: z.string().min(1).describe('Full, partial or misspelt accommodation name (e.g., "Adare Manor")'),
+  min_score: z.number().min(0).max(1).default(0.4).describe('Minimum match score (0-1) for an accommodation to be returned'),
+  limit: z.number().int().min(1).max(100).default(10).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  currency: CurrencySchema,
+});
+
+export type FindAccommodationByNameParams = z.infer<typeof FindAccommodationByNameSchema>;
+
 /**
  * Accommodation search parameters
  */
 export const SearchAccommodationsSchema = z.object({
   region: z.string().optional().describe('Region to search'),
-  near_course_id: z.string().uuid().optional().describe('Find hotels near this course'),
-  min_price_cents: z.number().optional(),
-  max_price_cents: z.number().optional(),
-  amenities: z.array(z.string()).optional().describe('Required amenities'),
-  limit: z.number().default(20),
+  near_course_id: z.string().uuid().optional().describe('Find hotels near this course (results sorted nearest first)'),
+  radius_km: z.number().positive().optional().describe('With near_course_id, only return accommodations within this distance'),
+  min_price_cents: z.number().optional().describe('Minimum nightly rate in cents of `currency`'),
+  max_price_cents: z.number().optional().describe('Maximum nightly rate in cents of `currency`'),
+  amenities: z.array(z.string()).optional().describe('Required amenities; results must have all of them (e.g. ["spa", "pool"])'),
+  type: z.string().optional().describe('Accommodation type (e.g. "hotel", "castle", "lodge")'),
+  min_rating: z.number().min(0).max(5).optional().describe('Minimum rating'),
+  sort_by: z.enum(['rating', 'price_asc', 'price_desc', 'name', 'distance']).optional().describe('Result order (default: distance with near_course_id, otherwise rating)'),
+  limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  include_effective_price: z.boolean().default(false).describe("Annotate each accommodation with the operator's effective nightly rate (requires the rates scope)"),
+  operator_id: z.string().uuid().optional().describe("Operator for effective prices (defaults to the API key's operator)"),
+  price_date: z.string().date().optional().describe('Date for effective prices (YYYY-MM-DD); defaults to today'),
+  currency: CurrencySchema,
 });
 
 export type SearchAccommodationsParams = z.infer<typeof SearchAccommodationsSchema>;
@@ -68,16 +186,35 @@ export type SearchAccommodationsParams = z.infer<typeof SearchAccommodationsSche
  */
 export const GetAccommodationDetailsSchema = z.object({
   accommodation_id: z.string().uuid().describe('UUID of the accommodation'),
+  currency: CurrencySchema,
 });
 
 export type GetAccommodationDetailsParams = z.infer<typeof GetAccommodationDetailsSchema>;
 
+/**
+ * Golf resorts parameters
+ */
+export const GetGolfResortsSchema = z.object({
+  region: z.string().optional().describe('Region to search'),
+  limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  currency: CurrencySchema,
+});
+
+export type GetGolfResortsParams = z.infer<typeof GetGolfResortsSchema>;
+
 /**
  * Supplier rates parameters
  */
 export const GetSupplierRatesSchema = z.object({
-  operator_id: z.string().uuid().describe('UUID of the tour operator'),
-  supplier_type: z.enum(['golf_course', 'accommodation', 'transport', 'any']).optional(),
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  supplier_type: z.enum(['golf_course', 'accommodation', 'transport', 'any']).optional().describe('Filter by supplier type'),
+  travel_date: z.string().date().optional().describe('Return the rate valid on this date (YYYY-MM-DD); defaults to today'),
+  travel_end_date: z.string().date().optional().describe('With travel_date, return every rate valid at any point up to this date (e.g. seasonal rates across a trip)'),
+  expiry_warning_days: z.number().int().min(0).max(365).default(30).describe('Report rates expiring within this many days of travel_date'),
+  limit: z.number().int().min(1).max(100).default(100).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  currency: CurrencySchema,
 });
 
 export type GetSupplierRatesParams = z.infer<typeof GetSupplierRatesSchema>;
@@ -86,9 +223,726 @@ export type GetSupplierRatesParams = z.infer<typeof GetSupplierRatesSchema>;
  * Check negotiated rate parameters
  */
 export const HasNegotiatedRateSchema = z.object({
-  operator_id: z.string().uuid(),
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
   supplier_id: z.string().uuid().describe('UUID of course or hotel'),
+  travel_date: z.string().date().optional().describe('Check the rate valid on this date (YYYY-MM-DD); defaults to today'),
+  currency: CurrencySchema,
 });
 
 export type HasNegotiatedRateParams = z.infer<typeof HasNegotiatedRateSchema>;
 
+
+/**
+ * Operator suppliers parameters
+ */
+export const GetOperatorSuppliersSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  limit: z.number().int().min(1).max(100).default(100).describe('Maximum number of results per page'),
+  cursor: z.string().optional().describe('Opaque cursor from metadata.next_cursor of a previous call'),
+  currency: CurrencySchema,
+});
+
+export type GetOperatorSuppliersParams = z.infer<typeof GetOperatorSuppliersSchema>;
+
+/**
+ * Effective price parameters
+ */
+export const GetEffectivePriceSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  supplier_id: z.string().uuid().describe('UUID of the course or accommodation'),
+  supplier_type: z.enum(['golf_course', 'accommodation']).optional().describe('Supplier type (looked up when omitted)'),
+  date: z.string().date().optional().describe('Date to price (YYYY-MM-DD); defaults to today'),
+  currency: CurrencySchema,
+});
+
+export type GetEffectivePriceParams = z.infer<typeof GetEffectivePriceSchema>;
+
+/**
+ * Negotiated rate fields accepted by the rate write tools
+ */
+const RateFieldsSchema = z.object({
+  supplier_id: z.string().uuid().describe('UUID of the course, accommodation or transport supplier'),
+  supplier_type: z.enum(['golf_course', 'accommodation', 'transport']).describe('Supplier type'),
+  rate_cents: z.number().int().positive().nullable().optional().describe('Absolute negotiated price in cents of `currency` (give this or discount_percentage)'),
+  discount_percentage: z.number().min(0).max(100).nullable().optional().describe('Discount off the rack rate, 0-100 (give this or rate_cents)'),
+  valid_from: z.string().date().nullable().optional().describe('First day the rate applies (YYYY-MM-DD); null for no start date'),
+  valid_until: z.string().date().nullable().optional().describe('Last day the rate applies (YYYY-MM-DD); null for open-ended'),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+/**
+ * Create-or-update rate row; fields left out of an update keep their values
+ */
+export const RateChangeSchema = RateFieldsSchema.partial({ supplier_id: true, supplier_type: true }).extend({
+  rate_id: z.string().uuid().optional().describe('Rate to update; omit to create a new rate'),
+});
+
+export type RateChangeParams = z.infer<typeof RateChangeSchema>;
+
+/**
+ * Upsert supplier rate parameters
+ */
+export const UpsertSupplierRateSchema = RateChangeSchema.extend({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  currency: CurrencySchema.describe('ISO 4217 currency of rate_cents and the result (e.g. "GBP"); defaults to EUR'),
+});
+
+export type UpsertSupplierRateParams = z.infer<typeof UpsertSupplierRateSchema>;
+
+/**
+ * Expire supplier rate parameters
+ */
+export const ExpireSupplierRateSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  rate_id: z.string().uuid().describe('Rate to expire'),
+  valid_until: z.string().date().optional().describe('Last day the rate applies (YYYY-MM-DD); defaults to yesterday, so it no longer applies from today'),
+  currency: CurrencySchema.describe('ISO 4217 currency of the result (e.g. "GBP"); defaults to EUR'),
+});
+
+export type ExpireSupplierRateParams = z.infer<typeof ExpireSupplierRateSchema>;
+
+/**
+ * Bulk import supplier rates parameters
+ */
+export const BulkImportSupplierRatesSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  rates: z.array(RateChangeSchema).min(1).max(500).describe('Rates to create (without rate_id) or update (with rate_id); nothing is saved unless every row is valid'),
+  currency: CurrencySchema.describe('ISO 4217 currency of every rate_cents and the result (e.g. "GBP"); defaults to EUR'),
+});
+
+export type BulkImportSupplierRatesParams = z.infer<typeof BulkImportSupplierRatesSchema>;
+
+/**
+ * Import rate sheet parameters
+ */
+export const ImportRateSheetSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  csv: z.string().min(1).max(1_000_000).describe('Rate sheet as CSV text, with a header row (see export_rate_sheet for the columns)'),
+  min_match_score: z.number().min(0).max(1).default(0.8).describe('Lowest fuzzy match score (0-1) accepted when matching supplier names'),
+  apply: z.boolean().default(false).describe('Save the changes; by default only the diff is returned'),
+  currency: CurrencySchema.describe('ISO 4217 currency of the amounts in the sheet and the result (e.g. "GBP"); defaults to EUR'),
+});
+
+export type ImportRateSheetParams = z.infer<typeof ImportRateSheetSchema>;
+
+/**
+ * Export rate sheet parameters
+ */
+export const ExportRateSheetSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  currency: CurrencySchema.describe('ISO 4217 currency of the amounts in the sheet (e.g. "GBP"); defaults to EUR'),
+});
+
+export type ExportRateSheetParams = z.infer<typeof ExportRateSheetSchema>;
+
+/**
+ * Trip quote parameters
+ */
+export const BuildTripQuoteSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("UUID of the tour operator (defaults to the API key's operator)"),
+  party_size: z.number().int().min(1).max(200).describe('Number of golfers travelling'),
+  nights: z.number().int().min(0).max(60).describe('Number of nights in the trip'),
+  start_date: z.string().date().optional().describe('Arrival date (YYYY-MM-DD) used to pick valid negotiated rates; defaults to today'),
+  courses: z.array(z.object({
+    course_id: z.string().uuid().describe('UUID of the golf course'),
+    rounds: z.number().int().min(1).default(1).describe('Rounds per golfer at this course'),
+    day_offset: z.number().int().min(0).default(0).describe('Days after start_date that the rounds are played; list a course again for rounds on other days'),
+  })).default([]).describe('Courses to play'),
+  accommodations: z.array(z.object({
+    accommodation_id: z.string().uuid().describe('UUID of the accommodation'),
+    rooms: z.number().int().min(1).optional().describe('Rooms to book (defaults to twin share: party_size / 2, rounded up)'),
+    nights: z.number().int().min(1).optional().describe('Nights at this accommodation (defaults to the trip nights)'),
+    check_in_offset_nights: z.number().int().min(0).default(0).describe('Nights after start_date that the stay begins'),
+  })).default([]).describe('Accommodations to stay at'),
+  currency: CurrencySchema,
+});
+
+export type BuildTripQuoteParams = z.infer<typeof BuildTripQuoteSchema>;
+
+/**
+ * Itinerary planner parameters
+ */
+export const PlanItinerarySchema = z.object({
+  region: z.string().min(1).optional().describe('Region to play in (e.g., "Southwest Ireland")'),
+  regions: z.array(z.string().min(1)).min(1).max(7).optional().describe('Regions to visit in order; trip days are split evenly between them, with a base in each'),
+  days: z.number().int().min(1).max(21).describe('Number of golfing days'),
+  rounds_per_day: z.number().int().min(1).max(2).default(1).describe('Rounds each golfer plays per day'),
+  budget_tier: z.enum(['budget', 'standard', 'luxury']).describe('Budget category for green fees'),
+  party_size: z.number().int().min(1).max(200).default(4).describe('Number of golfers travelling (for the cost estimate)'),
+  start_date: z.string().date().optional().describe('First golfing day (YYYY-MM-DD); defaults to today'),
+  allow_repeat_courses: z.boolean().default(false).describe('Allow a course to be played more than once when a region runs short'),
+  operator_id: z.string().uuid().optional().describe("Operator whose budget tiers and negotiated rates apply (defaults to the API key's operator)"),
+  currency: CurrencySchema,
+});
+
+export type PlanItineraryParams = z.infer<typeof PlanItinerarySchema>;
+
+/**
+ * Tee-time availability parameters
+ */
+export const CheckTeeTimeAvailabilitySchema = z.object({
+  course_id: z.string().uuid().describe('UUID of the golf course'),
+  date: z.string().date().describe('Day to play (YYYY-MM-DD)'),
+  party_size: z.number().int().min(1).max(4).describe('Golfers teeing off together (a tee time holds up to 4)'),
+  earliest_time: TimeOfDaySchema.optional().describe('Earliest tee time wanted (HH:MM, course local time)'),
+  latest_time: TimeOfDaySchema.optional().describe('Latest tee time wanted (HH:MM, course local time)'),
+  currency: CurrencySchema,
+});
+
+export type CheckTeeTimeAvailabilityParams = z.infer<typeof CheckTeeTimeAvailabilitySchema>;
+
+/**
+ * Room availability parameters
+ */
+export const CheckRoomAvailabilitySchema = z.object({
+  accommodation_id: z.string().uuid().describe('UUID of the accommodation'),
+  check_in: z.string().date().describe('Arrival date (YYYY-MM-DD)'),
+  check_out: z.string().date().describe('Departure date (YYYY-MM-DD)'),
+  rooms: z.number().int().min(1).max(50).default(1).describe('Rooms needed of the same type'),
+  occupancy: z.number().int().min(1).max(6).default(2).describe('Guests per room'),
+  operator_id: z.string().uuid().optional().describe("Operator whose negotiated rates apply (defaults to the API key's operator; requires the rates scope)"),
+  currency: CurrencySchema,
+});
+
+export type CheckRoomAvailabilityParams = z.infer<typeof CheckRoomAvailabilitySchema>;
+
+/**
+ * Create hold parameters
+ */
+export const CreateHoldSchema = z.object({
+  operator_id: z.string().uuid().optional().describe("Operator placing the hold (defaults to the API key's operator)"),
+  tee_times: z.array(z.object({
+    course_id: z.string().uuid().describe('UUID of the golf course'),
+    date: z.string().date().describe('Day to play (YYYY-MM-DD)'),
+    time: TimeOfDaySchema.describe('Tee time (HH:MM) from check_tee_time_availability'),
+    players: z.number().int().min(1).max(4).describe('Places to hold'),
+  })).max(20).default([]).describe('Tee times to hold'),
+  rooms: z.array(z.object({
+    accommodation_id: z.string().uuid().describe('UUID of the accommodation'),
+    room_type: z.string().min(1).describe('Room type from check_room_availability'),
+    check_in: z.string().date().describe('Arrival date (YYYY-MM-DD)'),
+    check_out: z.string().date().describe('Departure date (YYYY-MM-DD)'),
+    rooms: z.number().int().min(1).max(50).default(1).describe('Rooms to hold'),
+  })).max(20).default([]).describe('Rooms to hold'),
+  hold_minutes: z.number().int().min(5).max(1440).default(60).describe('How long to hold the inventory'),
+  client_reference: z.string().max(200).optional().describe("Operator's reference for the client or enquiry"),
+  notes: z.string().max(2000).optional(),
+  idempotency_key: IdempotencyKeySchema,
+});
+
+export type CreateHoldParams = z.infer<typeof CreateHoldSchema>;
+
+/**
+ * Extend hold parameters
+ */
+export const ExtendHoldSchema = z.object({
+  hold_id: z.string().uuid().describe('UUID of the hold'),
+  extend_minutes: z.number().int().min(5).max(1440).default(60).describe('Minutes to add to the expiry'),
+  idempotency_key: IdempotencyKeySchema,
+});
+
+export type ExtendHoldParams = z.infer<typeof ExtendHoldSchema>;
+
+/**
+ * Release hold parameters
+ */
+export const ReleaseHoldSchema = z.object({
+  hold_id: z.string().uuid().describe('UUID of the hold'),
+  reason: z.string().max(500).optional().describe('Why the hold was released, for the audit trail'),
+  idempotency_key: IdempotencyKeySchema,
+});
+
+export type ReleaseHoldParams = z.infer<typeof ReleaseHoldSchema>;
+
+/**
+ * Confirm booking parameters
+ */
+export const ConfirmBookingSchema = z.object({
+  hold_id: z.string().uuid().describe('UUID of the hold to book'),
+  idempotency_key: IdempotencyKeySchema,
+});
+
+export type ConfirmBookingParams = z.infer<typeof ConfirmBookingSchema>;
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+/**
+ * Final price after applying the operator's negotiated rate
+ */
+export const EffectivePriceSchema = withDisplayPrices(z.object({
+  price_cents: z.number().describe('Price the operator pays, in cents'),
+  rack_price_cents: z.number().nullable().describe('Standard (rack) price, in cents'),
+  savings_cents: z.number(),
+  savings_percentage: z.number(),
+  pricing_rule: z.enum(['negotiated_rate', 'negotiated_discount', 'rack_rate', 'unpriced']),
+  rate_id: z.string().nullable().describe('operator_supplier_rates row applied, if any'),
+}));
+
+/**
+ * Course as returned by search and recommendation tools
+ */
+export const CourseSummarySchema = withDisplayPrices(z.object({
+  id: z.string().describe('UUID of the golf course'),
+  name: z.string(),
+  region: z.string().nullable(),
+  course_type: z.string().nullable(),
+  rating: z.number().nullable(),
+  difficulty_level: z.string().nullable(),
+  green_fee_standard_cents: z.number().nullable().describe('Standard (rack rate) green fee in cents'),
+  description: z.string().nullable(),
+  location: z.unknown().optional(),
+  features: z.unknown().optional(),
+  created_at: z.string().nullable().optional(),
+  distance_km: z.number().optional().describe('Distance from the near_accommodation_id accommodation'),
+  effective_price: EffectivePriceSchema.optional(),
+}));
+
+export type CourseSummary = z.infer<typeof CourseSummarySchema>;
+
+/**
+ * Course as returned by recommendations, with its score
+ */
+export const RecommendedCourseSchema = CourseSummarySchema.extend({
+  score: z.number().describe('Recommendation score (0-1)'),
+  score_breakdown: z.record(z.object({
+    score: z.number().describe('Component score (0-1)'),
+    weight: z.number().describe('Share of the overall score'),
+  })).describe('Score per component: rating, difficulty, course_type, price_fit, negotiated_rate'),
+  reason: z.string().describe('Short explanation of the recommendation'),
+});
+
+export type RecommendedCourse = z.infer<typeof RecommendedCourseSchema>;
+
+/**
+ * Full course record
+ */
+export const CourseDetailSchema = CourseSummarySchema.passthrough();
+
+export type CourseDetail = z.infer<typeof CourseDetailSchema>;
+
+/**
+ * Course name match
+ */
+export const CourseMatchSchema = CourseSummarySchema.pick({
+  id: true,
+  name: true,
+  region: true,
+  course_type: true,
+  green_fee_standard_cents: true,
+  green_fee_standard_display: true,
+  currency: true,
+}).extend({
+  match_score: z.number().describe('How closely the name matched (0-1, 1 being exact)'),
+  matched_on: z.string().describe('The name or alias that matched'),
+});
+
+export type CourseMatch = z.infer<typeof CourseMatchSchema>;
+
+/**
+ * Accommodation as returned by search tools
+ */
+export const AccommodationSummarySchema = withDisplayPrices(z.object({
+  id: z.string().describe('UUID of the accommodation'),
+  name: z.string(),
+  type: z.string().nullable(),
+  region: z.string().nullable(),
+  rating: z.number().nullable(),
+  standard_rate_cents: z.number().nullable().describe('Standard (rack rate) nightly rate in cents'),
+  description: z.string().nullable(),
+  amenities: z.unknown().optional(),
+  location: z.unknown().optional(),
+  distance_km: z.number().optional().describe('Distance from the near_course_id course'),
+  effective_price: EffectivePriceSchema.optional(),
+}));
+
+export type AccommodationSummary = z.infer<typeof AccommodationSummarySchema>;
+
+/**
+ * Accommodation as returned by name lookup
+ */
+export const AccommodationMatchSchema = AccommodationSummarySchema.pick({
+  id: true,
+  name: true,
+  type: true,
+  region: true,
+  standard_rate_cents: true,
+  standard_rate_display: true,
+  currency: true,
+}).extend({
+  match_score: z.number().describe('How closely the name matched (0-1, 1 being exact)'),
+  matched_on: z.string().describe('The name or alias that matched'),
+});
+
+export type AccommodationMatch = z.infer<typeof AccommodationMatchSchema>;
+
+/**
+ * Accommodation search facet counts (returned in metadata.facets)
+ */
+export interface AccommodationFacets {
+  total: number;
+  type: Record<string, number>;
+  region: Record<string, number>;
+  amenity: Record<string, number>;
+  price_band: Record<string, number>;
+}
+
+/**
+ * Full accommodation record
+ */
+export const AccommodationDetailSchema = AccommodationSummarySchema.passthrough();
+
+export type AccommodationDetail = z.infer<typeof AccommodationDetailSchema>;
+
+/**
+ * Negotiated operator-supplier rate
+ */
+export const SupplierRateSchema = withDisplayPrices(z.object({
+  id: z.string(),
+  operator_id: z.string(),
+  supplier_id: z.string(),
+  supplier_type: z.string(),
+  rate_cents: z.number().nullable().describe('Absolute negotiated price in cents'),
+  discount_percentage: z.number().nullable().describe('Discount off the rack rate (0-100)'),
+  valid_from: z.string().nullable(),
+  valid_until: z.string().nullable(),
+  notes: z.string().nullable(),
+  overlapping_rate_ids: z.array(z.string()).optional().describe('Other rates valid on the same date that this one took precedence over'),
+}));
+
+export type SupplierRate = z.infer<typeof SupplierRateSchema>;
+
+/**
+ * Outcome of a bulk rate import
+ */
+export const RateImportResultSchema = z.object({
+  created: z.number(),
+  updated: z.number(),
+  unchanged: z.number(),
+  rates: z.array(SupplierRateSchema).describe('Rates created or updated'),
+});
+
+export type RateImportResult = z.infer<typeof RateImportResultSchema>;
+
+/**
+ * Outcome of importing one rate sheet row
+ */
+export const RateSheetRowSchema = z.object({
+  line: z.number().describe('Line of the sheet the row starts on (the header is line 1)'),
+  supplier: z.string().describe('Supplier as named in the sheet'),
+  match: z.object({
+    supplier_id: z.string(),
+    supplier_type: z.string(),
+    name: z.string().describe('Catalogue name of the matched supplier'),
+    match_score: z.number().describe('Name similarity (1 for an exact match or a given supplier_id)'),
+  }).nullable(),
+  action: z.enum(['create', 'update', 'unchanged', 'invalid']),
+  before: SupplierRateSchema.nullable().describe('Current rate the row replaces'),
+  after: SupplierRateSchema.nullable().describe('Rate as it will be saved'),
+  changed_fields: z.array(z.string()),
+  errors: z.array(z.object({
+    field: z.string(),
+    message: z.string(),
+    code: z.string(),
+  })),
+});
+
+/**
+ * Rate sheet import diff
+ */
+export const RateSheetImportSchema = z.object({
+  applied: z.boolean().describe('Whether the changes were saved'),
+  summary: z.object({
+    rows: z.number(),
+    create: z.number(),
+    update: z.number(),
+    unchanged: z.number(),
+    invalid: z.number(),
+  }),
+  rows: z.array(RateSheetRowSchema),
+});
+
+export type RateSheetImport = z.infer<typeof RateSheetImportSchema>;
+
+/**
+ * Exported rate sheet
+ */
+export const RateSheetExportSchema = z.object({
+  filename: z.string(),
+  rows: z.number(),
+  csv: z.string(),
+});
+
+export type RateSheetExport = z.infer<typeof RateSheetExportSchema>;
+
+/**
+ * Rate nearing the end of its validity window
+ */
+export const RateExpirySchema = z.object({
+  rate_id: z.string(),
+  supplier_id: z.string(),
+  valid_until: z.string(),
+  days_remaining: z.number(),
+  renewed: z.boolean().describe('Whether another rate for the supplier starts after this one ends'),
+});
+
+export type RateExpiry = z.infer<typeof RateExpirySchema>;
+
+/**
+ * Negotiated rate check result
+ */
+export const NegotiatedRateCheckSchema = withDisplayPrices(z.object({
+  has_rate: z.boolean(),
+  travel_date: z.string(),
+  rate_id: z.string().optional(),
+  rate_cents: z.number().nullable().optional(),
+  discount_percentage: z.number().nullable().optional(),
+  valid_from: z.string().nullable().optional(),
+  valid_until: z.string().nullable().optional(),
+  expires_in_days: z.number().nullable().optional().describe('Days until the rate expires (null when open-ended)'),
+  overlapping_rate_ids: z.array(z.string()).optional(),
+  next_rate: z.object({
+    rate_id: z.string(),
+    valid_from: z.string().nullable(),
+  }).optional().describe('Next rate to take effect when none applies on travel_date'),
+}));
+
+export type NegotiatedRateCheck = z.infer<typeof NegotiatedRateCheckSchema>;
+
+/**
+ * Operator supplier relationship
+ */
+export const OperatorSupplierSchema = SupplierRateSchema.pick({
+  supplier_id: true,
+  supplier_type: true,
+  rate_cents: true,
+  rate_display: true,
+  discount_percentage: true,
+  currency: true,
+});
+
+export type OperatorSupplier = z.infer<typeof OperatorSupplierSchema>;
+
+/**
+ * Priced line of a trip quote
+ */
+export const QuoteLineItemSchema = withDisplayPrices(z.object({
+  supplier_type: z.enum(['golf_course', 'accommodation']),
+  supplier_id: z.string(),
+  name: z.string(),
+  description: z.string().describe('What the line covers, e.g. "2 rounds x 4 golfers"'),
+  unit: z.enum(['round', 'room_night']),
+  quantity: z.number(),
+  unit_rack_price_cents: z.number().nullable(),
+  unit_price_cents: z.number(),
+  pricing_rule: z.enum(['negotiated_rate', 'negotiated_discount', 'rack_rate', 'unpriced']),
+  rate_id: z.string().nullable().describe('operator_supplier_rates row applied, if any'),
+  total_cents: z.number(),
+  rack_total_cents: z.number().describe('Cost of the line at rack rates'),
+  savings_cents: z.number().describe('Saving versus rack rate'),
+  start_date: z.string().optional().describe('Play date of a round, or first night of a room line'),
+  end_date: z.string().optional().describe('Play date of a round, or check-out after a room line'),
+}));
+
+export type QuoteLineItem = z.infer<typeof QuoteLineItemSchema>;
+
+/**
+ * Itemized trip quote
+ */
+export const TripQuoteSchema = z.object({
+  operator_id: z.string(),
+  party_size: z.number(),
+  nights: z.number(),
+  start_date: z.string(),
+  line_items: z.array(QuoteLineItemSchema),
+  totals: withDisplayPrices(z.object({
+    golf_cents: z.number().nullable().describe('Null when a course has no green fee on record'),
+    accommodation_cents: z.number().nullable().describe('Null when an accommodation has no room rate on record'),
+    total_cents: z.number().nullable().describe('Null when the quote is incomplete'),
+    rack_total_cents: z.number().nullable().describe('Sum of the lines at rack rates'),
+    savings_cents: z.number().nullable(),
+    per_person_cents: z.number().nullable(),
+    incomplete: z.boolean().describe('Whether any line has no price on record, leaving totals out'),
+    unpriced: z.array(z.string()).describe('Courses and accommodations with no price on record'),
+  })),
+  warnings: z.array(z.string()),
+});
+
+export type TripQuote = z.infer<typeof TripQuoteSchema>;
+
+/**
+ * A round scheduled in an itinerary
+ */
+export const ItineraryRoundSchema = withDisplayPrices(z.object({
+  course_id: z.string(),
+  name: z.string(),
+  course_type: z.string().nullable(),
+  rating: z.number().nullable(),
+  distance_km: z.number().describe('Distance from the base accommodation'),
+  unit_price_cents: z.number().describe('Green fee per golfer'),
+  pricing_rule: z.enum(['negotiated_rate', 'negotiated_discount', 'rack_rate', 'unpriced']),
+}));
+
+/**
+ * Multi-day golf itinerary with a cost estimate
+ */
+export const ItinerarySchema = z.object({
+  start_date: z.string(),
+  days: z.number(),
+  party_size: z.number(),
+  budget_tier: z.string(),
+  bases: z.array(withDisplayPrices(z.object({
+    region: z.string(),
+    accommodation_id: z.string(),
+    name: z.string(),
+    rating: z.number().nullable(),
+    check_in: z.string(),
+    check_out: z.string(),
+    nights: z.number(),
+    unit_price_cents: z.number().describe('Nightly room rate on check-in'),
+  }))).describe('Base accommodation for each region'),
+  schedule: z.array(z.object({
+    day: z.number(),
+    date: z.string(),
+    region: z.string(),
+    accommodation_id: z.string().describe('Base the day starts from'),
+    rounds: z.array(ItineraryRoundSchema),
+    travel_km: z.number().describe('Round-trip driving distance from the base, as the crow flies'),
+  })),
+  cost_estimate: withDisplayPrices(z.object({
+    golf_cents: z.number().nullable().describe('Null when a course has no price on record'),
+    accommodation_cents: z.number().nullable().describe('Null when a base has no price on record'),
+    total_cents: z.number().nullable().describe('Null when the estimate is incomplete'),
+    rack_total_cents: z.number().nullable(),
+    savings_cents: z.number().nullable(),
+    per_person_cents: z.number().nullable(),
+    rooms: z.number().describe('Rooms per night (twin share)'),
+    negotiated_rates_applied: z.boolean().describe("Whether the operator's negotiated rates were used"),
+    incomplete: z.boolean().describe('Whether any course or base has no price on record, leaving totals out'),
+    unpriced: z.array(z.string()).describe('Courses and bases with no price on record'),
+  })),
+  total_travel_km: z.number(),
+  warnings: z.array(z.string()),
+});
+
+export type Itinerary = z.infer<typeof ItinerarySchema>;
+
+/**
+ * Tee times a party can book on a day
+ */
+export const TeeTimeAvailabilitySchema = z.object({
+  course_id: z.string(),
+  course_name: z.string(),
+  date: z.string(),
+  party_size: z.number(),
+  provider: z.string().describe('Booking system the tee sheet came from'),
+  available: z.boolean().describe('Whether any tee time in the window fits the party'),
+  tee_times: z.array(withDisplayPrices(z.object({
+    time: z.string().describe('Tee time (HH:MM, course local time)'),
+    available_players: z.number().describe('Places still free'),
+    green_fee_cents: z.number().nullable().describe('Green fee per player'),
+  }))).describe('Tee times in the window with room for the party, earliest first'),
+});
+
+export type TeeTimeAvailability = z.infer<typeof TeeTimeAvailabilitySchema>;
+
+/**
+ * Room type bookable for a whole stay, priced night by night
+ */
+export const RoomTypeAvailabilitySchema = withDisplayPrices(z.object({
+  room_type: z.string(),
+  name: z.string(),
+  max_occupancy: z.number(),
+  standard: z.boolean().describe('Whether this is the standard room, the only type a flat negotiated rate applies to'),
+  rooms_available: z.number().describe('Fewest rooms free on any night of the stay'),
+  nightly_rates: z.array(withDisplayPrices(z.object({
+    date: z.string(),
+    rooms_available: z.number(),
+    rack_rate_cents: z.number().nullable().describe('Rack rate per room, including seasonal and weekend uplift'),
+    rate_cents: z.number().describe('Rate per room the operator pays'),
+    pricing_rule: z.enum(['negotiated_rate', 'negotiated_discount', 'rack_rate', 'unpriced']),
+    rate_id: z.string().nullable().describe('operator_supplier_rates row applied, if any'),
+  }))),
+  total_cents: z.number().describe('All requested rooms for the whole stay'),
+  rack_total_cents: z.number(),
+  savings_cents: z.number(),
+}));
+
+/**
+ * Rooms available at an accommodation for a stay
+ */
+export const RoomAvailabilitySchema = z.object({
+  accommodation_id: z.string(),
+  accommodation_name: z.string(),
+  check_in: z.string(),
+  check_out: z.string(),
+  nights: z.number(),
+  rooms: z.number(),
+  occupancy: z.number(),
+  provider: z.string().describe('Reservation system the inventory came from'),
+  negotiated_rates_applied: z.boolean().describe("Whether the operator's negotiated rates were used"),
+  available: z.boolean().describe('Whether any room type fits the request'),
+  room_types: z.array(RoomTypeAvailabilitySchema).describe('Room types with enough rooms for every night, cheapest first'),
+});
+
+export type RoomAvailability = z.infer<typeof RoomAvailabilitySchema>;
+
+/**
+ * Provisional booking with its audit trail
+ */
+export const HoldSchema = z.object({
+  id: z.string(),
+  operator_id: z.string(),
+  status: z.enum(['held', 'confirming', 'confirm_failed', 'confirmed', 'released', 'expired'])
+    .describe('confirming while suppliers are being booked; confirm_failed if a supplier failed (retry confirm_booking or release_hold)'),
+  tee_times: z.array(z.object({
+    course_id: z.string(),
+    date: z.string(),
+    time: z.string(),
+    players: z.number(),
+    booking_reference: z.string().nullable().describe("Course's booking reference once confirmed"),
+  })),
+  rooms: z.array(z.object({
+    accommodation_id: z.string(),
+    room_type: z.string(),
+    check_in: z.string(),
+    check_out: z.string(),
+    rooms: z.number(),
+    booking_reference: z.string().nullable().describe("Property's booking reference once confirmed"),
+  })),
+  client_reference: z.string().nullable(),
+  notes: z.string().nullable(),
+  expires_at: z.string().describe('When the hold lapses unless extended or confirmed'),
+  created_at: z.string(),
+  updated_at: z.string(),
+  history: z.array(z.object({
+    action: z.enum(['created', 'extended', 'released', 'confirmed', 'confirm_failed', 'expired']),
+    actor: z.string().describe('API key that acted, or "system"'),
+    at: z.string(),
+    details: z.record(z.unknown()).optional(),
+  })).describe('Audit trail, oldest first'),
+});
+
+export type HoldResult = z.infer<typeof HoldSchema>;
+
+/**
+ * Effective price for a supplier on a date
+ */
+export const EffectivePriceResultSchema = EffectivePriceSchema.extend({
+  supplier_id: z.string(),
+  supplier_type: z.enum(['golf_course', 'accommodation']),
+  supplier_name: z.string(),
+  date: z.string(),
+  rate: SupplierRateSchema.pick({
+    rate_cents: true,
+    rate_display: true,
+    discount_percentage: true,
+    valid_from: true,
+    valid_until: true,
+    currency: true,
+  }).nullable().describe('Negotiated rate applied, if any'),
+  explanation: z.string().describe('How the price was derived'),
+});
+
+export type EffectivePriceResult = z.infer<typeof EffectivePriceResultSchema>;
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ToolContext } from './auth.js';
+
+const keys = await vi.hoisted(async () => {
+  const { createHash } = await import('node:crypto');
+  const { writeFileSync } = await import('node:fs');
+  const { tmpdir } = await import('node:os');
+  const { join } = await import('node:path');
+  const hash = (key: string) => createHash('sha256').update(key).digest('hex');
+  const keys = {
+    operator: 'operator-key',
+    disabled: 'disabled-key',
+    legacy: 'legacy-shared-key-of-at-least-32-characters',
+  };
+  const file = join(tmpdir(), `api-keys-${process.pid}.json`);
+  writeFileSync(file, JSON.stringify({
+    keys: [
+      { id: 'sales', key_hash: hash(keys.operator), operator_id: '6f1c5a3e-0000-4000-8000-0000000000aa', role: 'sales_agent' },
+      { id: 'old', key_hash: hash(keys.disabled), operator_id: '6f1c5a3e-0000-4000-8000-0000000000aa', disabled: true },
+    ],
+  }));
+  process.env.API_KEYS_FILE = file;
+  process.env.MCP_API_KEY = keys.legacy;
+  return keys;
+});
+
+const { authenticateApiKey, optionalOperatorId, requireScope, resolveOperatorId } = await import('./auth.js');
+const { ForbiddenError, ValidationError } = await import('./errors.js');
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const OTHER_OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000bb';
+
+const bound: ToolContext = {
+  principal: { keyId: 'sales', operatorId: OPERATOR, scopes: ['catalogue', 'rates', 'bookings'] },
+};
+const legacy: ToolContext = {
+  principal: { keyId: 'legacy', scopes: ['catalogue', 'rates', 'bookings', 'rate_management'] },
+};
+
+describe('authenticateApiKey', () => {
+  it('binds an operator key to its operator and role scopes', () => {
+    expect(authenticateApiKey(keys.operator)).toEqual(bound.principal);
+  });
+  
+  it('leaves the legacy key unbound with every scope', () => {
+    expect(authenticateApiKey(keys.legacy)).toEqual(legacy.principal);
+  });
+  
+  it('rejects unknown and disabled keys', () => {
+    expect(authenticateApiKey('unknown-key')).toBeNull();
+    expect(authenticateApiKey(keys.disabled)).toBeNull();
+  });
+});
+
+describe('requireScope', () => {
+  it('refuses a caller without the scope', () => {
+    expect(() => requireScope(bound, 'rate_management', 'upsert_supplier_rate')).toThrow(ForbiddenError);
+  });
+  
+  it('allows a caller with the scope, and any call when auth is disabled', () => {
+    expect(() => requireScope(bound, 'rates', 'get_operator_rates')).not.toThrow();
+    expect(() => requireScope({}, 'rate_management', 'upsert_supplier_rate')).not.toThrow();
+  });
+});
+
+describe('resolveOperatorId', () => {
+  it('acts for the operator a key is bound to', () => {
+    expect(resolveOperatorId(undefined, bound)).toBe(OPERATOR);
+    expect(resolveOperatorId(OPERATOR, bound)).toBe(OPERATOR);
+  });
+  
+  it('refuses another operator for a bound key', () => {
+    expect(() => resolveOperatorId(OTHER_OPERATOR, bound)).toThrow(ForbiddenError);
+  });
+  
+  it('acts for the named operator with the unbound legacy key', () => {
+    expect(resolveOperatorId(OTHER_OPERATOR, legacy)).toBe(OTHER_OPERATOR);
+  });
+  
+  it('requires the unbound legacy key to name an operator', () => {
+    let error: unknown;
+    try {
+      resolveOperatorId(undefined, legacy);
+    } catch (e) {
+      error = e;
+    }
+    
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ details: { fields: [{ field: 'operator_id', code: 'missing_operator' }] } });
+  });
+});
+
+describe('optionalOperatorId', () => {
+  it('returns undefined when no operator is named or bound', () => {
+    expect(optionalOperatorId(undefined, legacy)).toBeUndefined();
+    expect(optionalOperatorId(undefined, {})).toBeUndefined();
+  });
+  
+  it('resolves like resolveOperatorId otherwise', () => {
+    expect(optionalOperatorId(undefined, bound)).toBe(OPERATOR);
+    expect(optionalOperatorId(OTHER_OPERATOR, legacy)).toBe(OTHER_OPERATOR);
+    expect(() => optionalOperatorId(OTHER_OPERATOR, bound)).toThrow(ForbiddenError);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * API Key Authentication
+ * 
+ * Per-operator API keys, stored as SHA-256 hashes in a JSON file
+ * (API_KEYS_FILE). Each key binds its requests to one tour operator so
+ * rate tools only ever see that operator's negotiated rates, and carries
+ * scopes that decide which tools it may list and call.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { env } from '../config/environment.js';
+import { logger } from './logger.js';
+import { ForbiddenError, ValidationError } from './errors.js';
+
+/**
+ * Tool permission scopes
+ */
+export const SCOPES = ['catalogue', 'rates', 'bookings', 'rate_management'] as const;
+
+export type Scope = typeof SCOPES[number];
+
+/**
+ * Roles are named scope bundles
+ */
+const ROLE_SCOPES = {
+  // Public-facing chat agents: course and accommodation catalogue only
+  public_agent: ['catalogue'],
+  // Internal sales agents: catalogue, negotiated rates and holds
+  sales_agent: ['catalogue', 'rates', 'bookings'],
+  // Contract managers: read and maintain negotiated rates
+  rate_manager: ['catalogue', 'rates', 'rate_management'],
+  admin: [...SCOPES],
+} satisfies Record<string, Scope[]>;
+
+export type Role = keyof typeof ROLE_SCOPES;
+
+const ApiKeyEntrySchema = z.object({
+  id: z.string().min(1).describe('Key identifier used in logs'),
+  key_hash: z.string().regex(/^[a-f0-9]{64}$/i, 'Expected a hex SHA-256 hash'),
+  operator_id: z.string().uuid(),
+  role: z.enum(Object.keys(ROLE_SCOPES) as [Role, ...Role[]]).default('public_agent'),
+  scopes: z.array(z.enum(SCOPES)).optional().describe('Overrides the scopes granted by role'),
+  disabled: z.boolean().default(false),
+});
+
+const ApiKeysFileSchema = z.object({
+  keys: z.array(ApiKeyEntrySchema),
+});
+
+type ApiKeyEntry = z.infer<typeof ApiKeyEntrySchema>;
+
+/**
+ * Identity behind an authenticated request
+ */
+export interface Principal {
+  keyId: string;
+  /** Operator the key is bound to; undefined for the unscoped legacy key */
+  operatorId?: string;
+  scopes: Scope[];
+}
+
+/**
+ * Caller context passed to every tool execution
+ */
+export interface ToolContext {
+  principal?: Principal;
+}
+
+let apiKeys: ApiKeyEntry[] | null = null;
+
+/**
+ * Hash an API key for storage in API_KEYS_FILE
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Load per-operator API keys from API_KEYS_FILE (cached after first load)
+ */
+export function loadApiKeys(): ApiKeyEntry[] {
+  if (apiKeys) return apiKeys;
+  
+  if (!env.API_KEYS_FILE) {
+    apiKeys = [];
+    return apiKeys;
+  }
+  
+  const raw = JSON.parse(readFileSync(env.API_KEYS_FILE, 'utf8'));
+  apiKeys = ApiKeysFileSchema.parse(raw).keys;
+  
+  logger.info('API keys loaded', {
+    file: env.API_KEYS_FILE,
+    count: apiKeys.length,
+  });
+  
+  return apiKeys;
+}
+
+/**
+ * Whether any form of API key authentication is configured
+ */
+export function isAuthEnabled(): boolean {
+  return Boolean(env.MCP_API_KEY) || loadApiKeys().length > 0;
+}
+
+/**
+ * Resolve a bearer token to a principal, or null if it matches no key
+ */
+export function authenticateApiKey(token: string): Principal | null {
+  const hash = Buffer.from(hashApiKey(token), 'hex');
+  
+  for (const entry of loadApiKeys()) {
+    if (entry.disabled) continue;
+    
+    if (timingSafeEqual(hash, Buffer.from(entry.key_hash.toLowerCase(), 'hex'))) {
+      return {
+        keyId: entry.id,
+        operatorId: entry.operator_id,
+        scopes: entry.scopes ?? ROLE_SCOPES[entry.role],
+      };
+    }
+  }
+  
+  // Legacy shared key: full access but not bound to an operator
+  if (env.MCP_API_KEY && timingSafeEqual(hash, Buffer.from(hashApiKey(env.MCP_API_KEY), 'hex'))) {
+    return { keyId: 'legacy', scopes: [...SCOPES] };
+  }
+  
+  return null;
+}
+
+/**
+ * Convert a principal to MCP AuthInfo (attached to requests as `req.auth`)
+ */
+export function toAuthInfo(token: string, principal: Principal): AuthInfo {
+  return {
+    token,
+    clientId: principal.keyId,
+    scopes: principal.scopes,
+    extra: { operatorId: principal.operatorId },
+  };
+}
+
+/**
+ * Build a tool context from MCP AuthInfo (undefined when auth is disabled)
+ */
+export function toolContextFromAuth(authInfo: AuthInfo | undefined): ToolContext {
+  if (!authInfo) return {};
+  
+  return {
+    principal: {
+      keyId: authInfo.clientId,
+      operatorId: authInfo.extra?.operatorId as string | undefined,
+      scopes: authInfo.scopes.filter((s): s is Scope => (SCOPES as readonly string[]).includes(s)),
+    },
+  };
+}
+
+/**
+ * Whether the caller holds a scope (always true when auth is disabled)
+ */
+export function hasScope(context: ToolContext, scope: Scope): boolean {
+  return !context.principal || context.principal.scopes.includes(scope);
+}
+
+/**
+ * Throw unless the caller holds a scope
+ */
+export function requireScope(context: ToolContext, scope: Scope, action: string): void {
+  if (!hasScope(context, scope)) {
+    throw new ForbiddenError(`API key lacks the '${scope}' scope required by ${action}`, {
+      required_scope: scope,
+    });
+  }
+}
+
+/**
+ * Resolve the operator a tool call acts for
+ * 
+ * Operator-bound keys always act for their own operator and may not name
+ * another one. Unscoped callers (legacy key, auth disabled) must name it.
+ */
+export function resolveOperatorId(requested: string | undefined, context: ToolContext): string {
+  const bound = context.principal?.operatorId;
+  
+  if (bound) {
+    if (requested && requested !== bound) {
+      throw new ForbiddenError('API key is not authorized for this operator', {
+        operator_id: requested,
+      });
+    }
+    return bound;
+  }
+  
+  if (!requested) {
+    throw new ValidationError('operator_id is required', [
+      { field: 'operator_id', message: 'Required when the API key is not bound to an operator', code: 'missing_operator' },
+    ]);
+  }
+  
+  return requested;
+}
+
+/**
+ * Resolve the operator a tool call acts for, if the call has one
+ * 
+ * Like resolveOperatorId, but returns undefined instead of failing when the
+ * caller neither names an operator nor is bound to one.
+ */
+export function optionalOperatorId(requested: string | undefined, context: ToolContext): string | undefined {
+  return requested || context.principal?.operatorId
+    ? resolveOperatorId(requested, context)
+    : undefined;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+
+await vi.hoisted(async () => {
+  const { writeFileSync } = await import('node:fs');
+  const { tmpdir } = await import('node:os');
+  const { join } = await import('node:path');
+  const file = join(tmpdir(), `fx-rates-${process.pid}.json`);
+  writeFileSync(file, JSON.stringify({ as_of: '2027-01-04', rates: { USD: 1.09, GBP: 0.86, JPY: 162.5 } }));
+  process.env.FX_RATES_FILE = file;
+});
+
+const { convertPriceArguments, convertPrices, getPriceConverter, labelPrices } = await import('./currency.js');
+const { ValidationError } = await import('./errors.js');
+
+describe('getPriceConverter', () => {
+  it('converts between the base currency and another', () => {
+    const usd = getPriceConverter('USD');
+    
+    expect(usd.fromBase(25000)).toBe(27250);
+    expect(usd.toBase(27250)).toBe(25000);
+    expect(usd.format(27250)).toBe('$272.50');
+    expect(usd.formatBase(25000)).toBe('$272.50');
+    expect(usd.asOf).toBe('2027-01-04');
+  });
+  
+  it('leaves base currency amounts alone', () => {
+    const eur = getPriceConverter();
+    
+    expect(eur.currency).toBe('EUR');
+    expect(eur.fromBase(18550)).toBe(18550);
+    expect(eur.format(18550)).toBe('€185.50');
+  });
+  
+  it('works in whole units for currencies without a minor unit', () => {
+    const jpy = getPriceConverter('JPY');
+    
+    expect(jpy.minorUnits).toBe(0);
+    expect(jpy.fromBase(25000)).toBe(40625);
+    expect(jpy.toBase(40625)).toBe(25000);
+    expect(jpy.format(40625)).toBe('¥40,625');
+  });
+  
+  it('rejects currencies without a rate', () => {
+    expect(() => getPriceConverter('CHF')).toThrow(ValidationError);
+  });
+});
+
+describe('convertPrices', () => {
+  it('converts nested *_cents fields and adds display fields and currency', () => {
+    const result = convertPrices({
+      name: 'Lahinch',
+      green_fee_cents: 25000,
+      rooms: [{ room_type: 'deluxe', nightly_rate_cents: 10000, note_cents: null }],
+    }, getPriceConverter('GBP'));
+    
+    expect(result).toEqual({
+      name: 'Lahinch',
+      green_fee_cents: 21500,
+      green_fee_display: '£215.00',
+      currency: 'GBP',
+      rooms: [{
+        room_type: 'deluxe',
+        nightly_rate_cents: 8600,
+        nightly_rate_display: '£86.00',
+        note_cents: null,
+        note_display: null,
+        currency: 'GBP',
+      }],
+    });
+  });
+});
+
+describe('labelPrices', () => {
+  it('adds display fields and currency without converting', () => {
+    expect(labelPrices({ total_cents: 27250 }, getPriceConverter('USD')))
+      .toEqual({ total_cents: 27250, total_display: '$272.50', currency: 'USD' });
+  });
+});
+
+describe('convertPriceArguments', () => {
+  it('converts top-level *_cents arguments to the base currency', () => {
+    expect(convertPriceArguments({ max_price_cents: 21800, region: 'Munster' }, getPriceConverter('USD')))
+      .toEqual({ max_price_cents: 20000, region: 'Munster' });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Currency Utility
+ * 
+ * Converts prices between the base currency they are stored in and the
+ * currency a caller asks for. Price fields follow the `*_cents` naming
+ * convention, which is what convertPrices relies on: every object carrying
+ * `*_cents` fields has them converted, gains a formatted `*_display` sibling
+ * for each, and states its `currency`.
+ * 
+ * Despite the name, `*_cents` amounts are in the minor unit of their
+ * currency, so they are whole yen for JPY and thousandths for KWD.
+ */
+
+import { BASE_CURRENCY, getFxTable } from '../config/fxRates.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Converts and formats prices for one target currency
+ */
+export interface PriceConverter {
+  currency: string;
+  /** Units of `currency` per unit of the base currency */
+  rate: number;
+  asOf?: string;
+  /** Decimal places of `currency`, e.g. 2 for USD and 0 for JPY */
+  minorUnits: number;
+  /** Convert base-currency minor units to `currency` minor units */
+  fromBase(cents: number): number;
+  /** Convert `currency` minor units to base-currency minor units */
+  toBase(cents: number): number;
+  /** Format `currency` minor units for display, e.g. "$162.50" */
+  format(cents: number): string;
+  /** Convert base-currency cents and format them, for prices quoted in text */
+  formatBase(cents: number): string;
+}
+
+/**
+ * Build a converter to a currency (the base currency when omitted)
+ */
+export function getPriceConverter(currency: string = BASE_CURRENCY): PriceConverter {
+  const table = getFxTable();
+  const rate = table.rates[currency];
+  
+  if (rate === undefined) {
+    throw new ValidationError(`No exchange rate configured for ${currency}`, [
+      {
+        field: 'currency',
+        message: `Supported currencies: ${Object.keys(table.rates).sort().join(', ')}`,
+        code: 'unsupported_currency',
+      },
+    ]);
+  }
+  
+  const formatter = new Intl.NumberFormat('en-US', { style: 'currency', currency });
+  const minorUnits = minorUnitsOf(currency);
+  // Minor units of `currency` per minor unit of the base currency
+  const unitRate = rate * 10 ** (minorUnits - minorUnitsOf(BASE_CURRENCY));
+  const fromBase = (cents: number) => Math.round(cents * unitRate);
+  const format = (cents: number) => formatter.format(cents / 10 ** minorUnits);
+  
+  return {
+    currency,
+    rate,
+    asOf: table.as_of,
+    minorUnits,
+    fromBase,
+    toBase: cents => Math.round(cents / unitRate),
+    format,
+    formatBase: cents => format(fromBase(cents)),
+  };
+}
+
+/**
+ * Convert every `*_cents` field in a result from the base currency
+ */
+export function convertPrices<T>(value: T, converter: PriceConverter): T {
+  return mapPrices(value, converter, converter.fromBase);
+}
+
+/**
+ * Add `*_display` and `currency` fields to a result whose `*_cents` fields
+ * are already in the converter's currency
+ */
+export function labelPrices<T>(value: T, converter: PriceConverter): T {
+  return mapPrices(value, converter, cents => cents);
+}
+
+/**
+ * Decimal places ISO 4217 gives a currency
+ */
+function minorUnitsOf(currency: string): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Map every `*_cents` field in a result and describe it for display
+ */
+function mapPrices<T>(value: T, converter: PriceConverter, amount: (cents: number) => number): T {
+  if (Array.isArray(value)) {
+    return value.map(item => mapPrices(item, converter, amount)) as T;
+  }
+  
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  
+  const result: Record<string, unknown> = {};
+  let priced = false;
+  
+  for (const [key, field] of Object.entries(value)) {
+    if (key.endsWith('_cents') && (typeof field === 'number' || field === null)) {
+      const converted = field === null ? null : amount(field);
+      result[key] = converted;
+      result[`${key.slice(0, -'_cents'.length)}_display`] = converted === null ? null : converter.format(converted);
+      priced = true;
+    } else {
+      result[key] = mapPrices(field, converter, amount);
+    }
+  }
+  
+  if (priced) {
+    result.currency = converter.currency;
+  }
+  
+  return result as T;
+}
+
+/**
+ * Convert top-level `*_cents` arguments (price filters) to the base currency
+ */
+export function convertPriceArguments<T extends Record<string, unknown>>(params: T, converter: PriceConverter): T {
+  const result: Record<string, unknown> = { ...params };
+  
+  for (const [key, field] of Object.entries(params)) {
+    if (key.endsWith('_cents') && typeof field === 'number') {
+      result[key] = converter.toBase(field);
+    }
+  }
+  
+  return result as T;
+}
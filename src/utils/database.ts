@@ -7,6 +7,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { env } from '../config/environment.js';
 import { logger } from './logger.js';
+import { UpstreamDatabaseError } from './errors.js';
 
 let supabaseClient: SupabaseClient | null = null;
 
@@ -42,6 +43,22 @@ export function getSupabaseClient(): SupabaseClient {
   return supabaseClient;
 }
 
+/**
+ * Unwrap a Supabase query response, throwing on database errors
+ */
+export function unwrapQuery<T>(
+  response: { data: T | null; error: { message: string; code?: string } | null }
+): T | null {
+  if (response.error) {
+    throw new UpstreamDatabaseError(
+      response.error.message,
+      response.error.code ? { db_code: response.error.code } : undefined
+    );
+  }
+  
+  return response.data;
+}
+
 /**
  * Test database connection
  */
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { NotFoundError, toToolError } from './errors.js';
+import { logger } from './logger.js';
+
+describe('toToolError', () => {
+  it('passes typed errors through', () => {
+    const error = new NotFoundError('Course', 'abc');
+    expect(toToolError(error)).toBe(error);
+  });
+  
+  it('maps Zod errors to validation errors', () => {
+    const result = z.object({ limit: z.number() }).safeParse({ limit: 'ten' });
+    expect(toToolError(!result.success && result.error).code).toBe('validation');
+  });
+  
+  it('hides the message of unexpected errors and logs it with the stack', () => {
+    const log = vi.spyOn(logger, 'error').mockImplementation(() => logger);
+    const error = new TypeError("Cannot read properties of undefined (reading 'id')");
+    
+    const toolError = toToolError(error, { tool: 'get_course_details' });
+    
+    expect(toolError.toJSON()).toEqual({ success: false, error: 'Internal error', code: 'internal' });
+    expect(log).toHaveBeenCalledWith('Error occurred', expect.objectContaining({
+      error: expect.objectContaining({ message: error.message, stack: error.stack }),
+      tool: 'get_course_details',
+    }));
+    log.mockRestore();
+  });
+});
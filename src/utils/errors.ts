@@ -0,0 +1,215 @@
+/**
+ * Error Taxonomy
+ * 
+ * Typed errors with machine-readable codes so agents and REST clients can
+ * tell bad input from missing records from upstream outages
+ */
+
+import { ZodError } from 'zod';
+import { logError } from './logger.js';
+
+/**
+ * Machine-readable error codes
+ */
+export type ErrorCode =
+  | 'validation'
+  | 'not_found'
+  | 'conflict'
+  | 'upstream_db'
+  | 'upstream_supplier'
+  | 'cache'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'internal';
+
+/**
+ * HTTP status for each error code
+ */
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  validation: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  rate_limited: 429,
+  internal: 500,
+  upstream_db: 502,
+  upstream_supplier: 502,
+  cache: 503,
+};
+
+/**
+ * Field-level validation problem
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Base class for all typed errors
+ */
+export class ToolError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCode,
+    public readonly details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+  
+  get status(): number {
+    return httpStatusFor(this.code);
+  }
+  
+  /**
+   * Serializable error payload for REST and MCP responses
+   */
+  toJSON() {
+    return {
+      success: false as const,
+      error: this.message,
+      code: this.code,
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+}
+
+/**
+ * Invalid input (400)
+ */
+export class ValidationError extends ToolError {
+  constructor(message: string, fields: FieldError[] = []) {
+    super(message, 'validation', fields.length > 0 ? { fields } : undefined);
+  }
+  
+  static fromZod(error: ZodError): ValidationError {
+    const fields = error.issues.map(issue => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message,
+      code: issue.code,
+    }));
+    const summary = fields.map(f => `${f.field}: ${f.message}`).join('; ');
+    return new ValidationError(`Invalid arguments - ${summary}`, fields);
+  }
+}
+
+/**
+ * Requested record does not exist (404)
+ */
+export class NotFoundError extends ToolError {
+  constructor(resource: string, id?: string) {
+    super(
+      id ? `${resource} '${id}' not found` : `${resource} not found`,
+      'not_found',
+      { resource, ...(id ? { id } : {}) }
+    );
+  }
+}
+
+/**
+ * Request conflicts with the current state of a record (409)
+ */
+export class ConflictError extends ToolError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'conflict', details);
+  }
+}
+
+/**
+ * Database query failed (502)
+ */
+export class UpstreamDatabaseError extends ToolError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(`Database error: ${message}`, 'upstream_db', details);
+  }
+}
+
+/**
+ * Supplier booking system (tee sheet, hotel inventory) failed (502)
+ */
+export class UpstreamSupplierError extends ToolError {
+  constructor(provider: string, message: string, details?: Record<string, any>) {
+    super(`Supplier system error (${provider}): ${message}`, 'upstream_supplier', { provider, ...details });
+  }
+}
+
+/**
+ * Cache operation failed where the result depends on it (503)
+ */
+export class CacheError extends ToolError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(`Cache error: ${message}`, 'cache', details);
+  }
+}
+
+/**
+ * Missing or invalid credentials (401)
+ */
+export class UnauthorizedError extends ToolError {
+  constructor(message: string = 'Missing or invalid authorization header') {
+    super(message, 'unauthorized');
+  }
+}
+
+/**
+ * Authenticated caller may not access this resource (403)
+ */
+export class ForbiddenError extends ToolError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, 'forbidden', details);
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitedError extends ToolError {
+  constructor(message: string = 'Too many requests, please try again later.', retryAfterSeconds?: number) {
+    super(message, 'rate_limited', retryAfterSeconds ? { retry_after_seconds: retryAfterSeconds } : undefined);
+  }
+}
+
+/**
+ * Normalize anything thrown into a ToolError
+ * 
+ * Unexpected errors are logged with their stack and `context`, and reported
+ * to clients only as "Internal error": their messages can carry internals
+ * such as SQL or property paths.
+ */
+export function toToolError(error: unknown, context: Record<string, any> = {}): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+  
+  if (error instanceof ZodError) {
+    return ValidationError.fromZod(error);
+  }
+  
+  logError(error instanceof Error ? error : new Error(String(error)), context);
+  return new ToolError('Internal error', 'internal');
+}
+
+/**
+ * Await a call to a supplier's system, reporting its failures as
+ * UpstreamSupplierError
+ */
+export async function fromSupplier<T>(provider: string, call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (error) {
+    throw error instanceof ToolError
+      ? error
+      : new UpstreamSupplierError(provider, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * HTTP status for an error code (500 for unknown codes)
+ */
+export function httpStatusFor(code: ErrorCode | undefined): number {
+  return code ? HTTP_STATUS[code] ?? 500 : 500;
+}
@@ -0,0 +1,86 @@
+/**
+ * MCP Event Store
+ * 
+ * In-memory event log for Streamable HTTP resumability. Clients that lose
+ * their SSE stream reconnect with a Last-Event-ID header and the transport
+ * replays everything sent on that stream afterwards.
+ */
+
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Bounded in-memory event store (one per session)
+ * 
+ * A session opens a stream per request, so the budget covers all of its
+ * streams together: once it is spent the oldest event of the session is
+ * dropped, whichever stream it was sent on.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, StoredEvent[]>();
+  private eventStreams = new Map<EventId, StreamId>();
+  /** Every stored event, oldest first */
+  private order: Array<{ eventId: EventId; streamId: StreamId }> = [];
+  private counter = 0;
+  
+  constructor(private readonly maxEvents: number = 1000) {}
+  
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.counter}`;
+    const events = this.streams.get(streamId) ?? [];
+    
+    events.push({ eventId, message });
+    this.streams.set(streamId, events);
+    this.eventStreams.set(eventId, streamId);
+    this.order.push({ eventId, streamId });
+    
+    // Drop the session's oldest events once it exceeds its budget; the
+    // oldest event overall is always the first of its stream
+    while (this.order.length > this.maxEvents) {
+      const oldest = this.order.shift()!;
+      const stream = this.streams.get(oldest.streamId) ?? [];
+      stream.shift();
+      this.eventStreams.delete(oldest.eventId);
+      if (stream.length === 0) this.streams.delete(oldest.streamId);
+    }
+    
+    return eventId;
+  }
+  
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.eventStreams.get(eventId);
+  }
+  
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) {
+      return '';
+    }
+    
+    const events = this.streams.get(streamId) ?? [];
+    const index = events.findIndex(e => e.eventId === lastEventId);
+    
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+    
+    return streamId;
+  }
+  
+  /**
+   * Forget all events (called when the owning session is closed)
+   */
+  clear(): void {
+    this.streams.clear();
+    this.eventStreams.clear();
+    this.order = [];
+  }
+}
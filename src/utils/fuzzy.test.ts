@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { nameSimilarity, rankByName } from './fuzzy.js';
+
+describe('nameSimilarity', () => {
+  it('scores names equal after normalizing as 1', () => {
+    expect(nameSimilarity('Ballybunion Golf Club', 'ballybunion golf club')).toBe(1);
+    expect(nameSimilarity("Doonbeg's", 'Doonbegs')).toBe(1);
+    expect(nameSimilarity('Ádare Manor', 'Adare Manor')).toBe(1);
+  });
+  
+  it('ignores generic words such as "golf club"', () => {
+    expect(nameSimilarity('Lahinch', 'Lahinch Golf Club')).toBe(1);
+  });
+  
+  it('tolerates typos', () => {
+    expect(nameSimilarity('Balybunion', 'Ballybunion Golf Club')).toBeGreaterThan(0.6);
+  });
+  
+  it('scores unrelated names low', () => {
+    expect(nameSimilarity('Portmarnock', 'Adare Manor')).toBeLessThan(0.3);
+  });
+  
+  it('scores empty queries 0', () => {
+    expect(nameSimilarity('', 'Lahinch Golf Club')).toBe(0);
+  });
+  
+  it('stays within 0-1', () => {
+    for (const [query, name] of [['Old Head', 'Old Head Golf Links'], ['K Club', 'The K Club'], ['x', 'Royal County Down']]) {
+      const score = nameSimilarity(query, name);
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('rankByName', () => {
+  const courses = [
+    { id: '1', name: 'Ballybunion Golf Club' },
+    { id: '2', name: 'Ballyliffin Golf Club' },
+    { id: '3', name: 'Royal Portrush Golf Club' },
+  ];
+  
+  it('ranks the closest name first and drops weak matches', () => {
+    const ranked = rankByName(courses, 'Ballybunnion');
+    
+    expect(ranked[0].id).toBe('1');
+    expect(ranked.map(r => r.id)).not.toContain('3');
+  });
+  
+  it('matches on aliases', () => {
+    const ranked = rankByName(courses, 'Dunluce', { aliases: { 'royal portrush golf club': ['Dunluce Links'] } });
+    
+    expect(ranked[0]).toMatchObject({ id: '3', matched_on: 'Dunluce Links' });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Fuzzy Name Matching
+ * 
+ * Ranks courses and accommodations against a name as a user might type it:
+ * misspelt ("Ballybunnion"), abbreviated ("Old Head Kinsale") or with the
+ * generic words left out ("the K Club"). Names are compared accent- and
+ * apostrophe-insensitively using a blend of per-token edit distance and
+ * trigram similarity, and known aliases are matched alongside the name.
+ */
+
+/**
+ * Words too generic to distinguish one venue from another
+ */
+const STOPWORDS = new Set([
+  'a', 'and', 'at', 'of', 'the',
+  'club', 'course', 'gc', 'golf', 'links',
+  'hotel', 'resort', 'spa',
+]);
+
+/**
+ * Minimum score for a candidate to be returned by default
+ */
+export const DEFAULT_MIN_SCORE = 0.4;
+
+/**
+ * A candidate ranked against a query
+ */
+export type RankedMatch<T> = T & {
+  match_score: number;
+  matched_on: string;
+};
+
+/**
+ * Lowercase, strip accents and apostrophes, and collapse punctuation
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2018\u2019`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Distinguishing tokens of a name (all tokens if every one is generic)
+ */
+function keyTokens(normalized: string): string[] {
+  const tokens = normalized.split(' ').filter(Boolean);
+  const significant = tokens.filter(t => !STOPWORDS.has(t));
+  
+  return significant.length > 0 ? significant : tokens;
+}
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
+
+/**
+ * Trigrams of each word, padded as pg_trgm does
+ */
+function trigrams(tokens: string[]): Set<string> {
+  const grams = new Set<string>();
+  for (const token of tokens) {
+    const padded = `  ${token} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+  }
+  
+  return grams;
+}
+
+/**
+ * Share of trigrams in common (0-1)
+ */
+function trigramSimilarity(a: string[], b: string[]): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  
+  const union = gramsA.size + gramsB.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * How well each query token is matched by its closest candidate token (0-1)
+ */
+function tokenSimilarity(query: string[], candidate: string[]): number {
+  const total = query.reduce((sum, q) => sum + Math.max(
+    ...candidate.map(c => 1 - editDistance(q, c) / Math.max(q.length, c.length))
+  ), 0);
+  
+  return total / query.length;
+}
+
+/**
+ * Similarity of a query to a name (0-1, 1 being an exact match)
+ */
+export function nameSimilarity(query: string, name: string): number {
+  const queryTokens = keyTokens(normalizeName(query));
+  const nameTokens = keyTokens(normalizeName(name));
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+  if (queryTokens.join(' ') === nameTokens.join(' ')) return 1;
+  
+  const score = 0.6 * tokenSimilarity(queryTokens, nameTokens)
+    + 0.4 * trigramSimilarity(queryTokens, nameTokens);
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Rank candidates by similarity of their name or aliases to a query
+ * 
+ * Candidates scoring below `minScore` are dropped; the rest are sorted
+ * best first, ties broken by name and id.
+ */
+export function rankByName<T extends { id: string; name: string }>(
+  candidates: T[],
+  query: string,
+  options: { aliases?: Record<string, string[]>; minScore?: number } = {}
+): Array<RankedMatch<T>> {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  
+  return candidates
+    .map(candidate => {
+      const names = [candidate.name, ...(options.aliases?.[normalizeName(candidate.name)] ?? [])];
+      const best = names
+        .map(name => ({ name, score: nameSimilarity(query, name) }))
+        .reduce((a, b) => b.score > a.score ? b : a);
+      
+      return { ...candidate, match_score: best.score, matched_on: best.name };
+    })
+    .filter(match => match.match_score >= minScore)
+    .sort((a, b) => b.match_score - a.match_score
+      || a.name.localeCompare(b.name)
+      || a.id.localeCompare(b.id));
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { distanceKm, parseLocation } from './geo.js';
+
+const LAHINCH = { lat: 52.9336, lng: -9.3450 };
+
+describe('parseLocation', () => {
+  it('reads GeoJSON points as [lng, lat]', () => {
+    expect(parseLocation({ type: 'Point', coordinates: [-9.345, 52.9336] })).toEqual(LAHINCH);
+  });
+  
+  it('reads lat/lng objects and JSON text', () => {
+    expect(parseLocation({ latitude: 52.9336, longitude: -9.345 })).toEqual(LAHINCH);
+    expect(parseLocation('{"lat": 52.9336, "lon": -9.345}')).toEqual(LAHINCH);
+  });
+  
+  it('reads WKT, EWKT and "lat,lng" strings', () => {
+    expect(parseLocation('POINT(-9.345 52.9336)')).toEqual(LAHINCH);
+    expect(parseLocation('SRID=4326;POINT(-9.345 52.9336)')).toEqual(LAHINCH);
+    expect(parseLocation('(52.9336, -9.345)')).toEqual(LAHINCH);
+  });
+  
+  it('reads PostGIS hex EWKB points', () => {
+    const bytes = Buffer.alloc(25);
+    bytes.writeUInt8(1, 0);
+    bytes.writeUInt32LE(0x20000001, 1);
+    bytes.writeUInt32LE(4326, 5);
+    bytes.writeDoubleLE(-9.345, 9);
+    bytes.writeDoubleLE(52.9336, 17);
+    
+    expect(parseLocation(bytes.toString('hex'))).toEqual(LAHINCH);
+  });
+  
+  it('returns null for missing or out-of-range values', () => {
+    expect(parseLocation(null)).toBeNull();
+    expect(parseLocation({ lat: 95, lng: 0 })).toBeNull();
+    expect(parseLocation({ lat: 52 })).toBeNull();
+    expect(parseLocation('somewhere in Clare')).toBeNull();
+  });
+});
+
+describe('distanceKm', () => {
+  it('is zero between a point and itself', () => {
+    expect(distanceKm(LAHINCH, LAHINCH)).toBe(0);
+  });
+  
+  it('matches known great-circle distances', () => {
+    const ballybunion = { lat: 52.5114, lng: -9.6721 };
+    expect(distanceKm(LAHINCH, ballybunion)).toBeCloseTo(51.6, 0);
+    expect(distanceKm({ lat: 0, lng: 0 }, { lat: 0, lng: 180 })).toBeCloseTo(Math.PI * 6371, 3);
+  });
+  
+  it('is symmetric', () => {
+    const dublin = { lat: 53.3498, lng: -6.2603 };
+    expect(distanceKm(LAHINCH, dublin)).toBeCloseTo(distanceKm(dublin, LAHINCH), 9);
+  });
+});
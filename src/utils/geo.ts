@@ -0,0 +1,168 @@
+/**
+ * Geo Utility
+ * 
+ * Parses the `location` column of golf_courses and accommodations and
+ * computes great-circle distances. Distances are computed in process so
+ * proximity search works against plain Postgres without PostGIS functions.
+ */
+
+import { getSupabaseClient, unwrapQuery } from './database.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+/**
+ * Geographic point in decimal degrees
+ */
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Parse a stored location into coordinates
+ * 
+ * Accepts GeoJSON points, `{ lat, lng }`-style objects, "lat,lng" strings,
+ * WKT/EWKT points and PostGIS hex EWKB points. Returns null when the value
+ * is missing or unrecognised.
+ */
+export function parseLocation(value: unknown): Coordinates | null {
+  if (value === null || value === undefined) return null;
+  
+  if (typeof value === 'string') {
+    return parseLocationString(value.trim());
+  }
+  
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    
+    // GeoJSON: coordinates are [lng, lat]
+    if (obj.type === 'Point' && Array.isArray(obj.coordinates)) {
+      return toCoordinates(obj.coordinates[1], obj.coordinates[0]);
+    }
+    
+    const lat = obj.lat ?? obj.latitude;
+    const lng = obj.lng ?? obj.lon ?? obj.long ?? obj.longitude;
+    return toCoordinates(lat, lng);
+  }
+  
+  return null;
+}
+
+function parseLocationString(value: string): Coordinates | null {
+  // WKT / EWKT: POINT(lng lat), optionally prefixed with SRID=4326;
+  const wkt = /POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)/i.exec(value);
+  if (wkt) {
+    return toCoordinates(wkt[2], wkt[1]);
+  }
+  
+  // PostGIS hex EWKB point
+  if (/^[0-9a-f]+$/i.test(value) && value.length >= 42) {
+    return parseEwkbPoint(value);
+  }
+  
+  // JSON stored as text
+  if (value.startsWith('{')) {
+    try {
+      return parseLocation(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  
+  // "lat,lng" or "(lat,lng)"
+  const pair = /^\(?\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)?$/.exec(value);
+  if (pair) {
+    return toCoordinates(pair[1], pair[2]);
+  }
+  
+  return null;
+}
+
+function parseEwkbPoint(hex: string): Coordinates | null {
+  const bytes = Buffer.from(hex, 'hex');
+  const littleEndian = bytes[0] === 1;
+  const type = littleEndian ? bytes.readUInt32LE(1) : bytes.readUInt32BE(1);
+  
+  // Geometry type 1 (Point), optionally flagged as carrying an SRID
+  if ((type & 0xff) !== 1) return null;
+  
+  const offset = type & 0x20000000 ? 9 : 5;
+  if (bytes.length < offset + 16) return null;
+  
+  const read = (at: number) => (littleEndian ? bytes.readDoubleLE(at) : bytes.readDoubleBE(at));
+  return toCoordinates(read(offset + 8), read(offset));
+}
+
+function toCoordinates(lat: unknown, lng: unknown): Coordinates | null {
+  const latNum = Number(lat);
+  const lngNum = Number(lng);
+  
+  if (lat === null || lat === undefined || lng === null || lng === undefined) return null;
+  if (!Number.isFinite(latNum) || !Number.isFinite(lngNum)) return null;
+  if (Math.abs(latNum) > 90 || Math.abs(lngNum) > 180) return null;
+  
+  return { lat: latNum, lng: lngNum };
+}
+
+/**
+ * Great-circle distance in kilometres (haversine)
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Attach `distance_km` from an origin to each row, drop rows outside the
+ * radius (or without a usable location) and sort nearest first
+ */
+export function rankByDistance<T extends { location?: unknown }>(
+  rows: T[],
+  origin: Coordinates,
+  radiusKm?: number
+): Array<T & { distance_km: number }> {
+  return rows
+    .map(row => {
+      const point = parseLocation(row.location);
+      return point
+        ? { ...row, distance_km: Math.round(distanceKm(origin, point) * 10) / 10 }
+        : null;
+    })
+    .filter((row): row is T & { distance_km: number } =>
+      row !== null && (radiusKm === undefined || row.distance_km <= radiusKm))
+    .sort((a, b) => a.distance_km - b.distance_km);
+}
+
+/**
+ * Look up the coordinates of a course or accommodation to search around
+ */
+export async function fetchLocation(
+  table: 'golf_courses' | 'accommodations',
+  id: string
+): Promise<Coordinates> {
+  const resource = table === 'golf_courses' ? 'Course' : 'Accommodation';
+  const row = unwrapQuery<{ id: string; location: unknown }>(
+    await getSupabaseClient()
+      .from(table)
+      .select('id, location')
+      .eq('id', id)
+      .maybeSingle()
+  );
+  
+  if (!row) {
+    throw new NotFoundError(resource, id);
+  }
+  
+  const point = parseLocation(row.location);
+  if (!point) {
+    throw new ValidationError(`${resource} '${id}' has no usable location for proximity search`);
+  }
+  
+  return point;
+}
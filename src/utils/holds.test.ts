@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  InMemoryHoldStore,
+  expireHold,
+  findShortfalls,
+  setHoldStore,
+  subtractHeldTeeTimes,
+  sweepExpiredHolds,
+} from './holds.js';
+import type { Hold, HoldCapacity } from './holds.js';
+
+const COURSE = '6f1c5a3e-0000-4000-8000-000000000001';
+const HOTEL = '6f1c5a3e-0000-4000-8000-000000000002';
+
+function makeHold(overrides: Partial<Hold> = {}): Hold {
+  const now = new Date();
+  return {
+    id: `hold-${Math.random().toString(36).slice(2)}`,
+    operator_id: 'operator-1',
+    status: 'held',
+    tee_times: [{ course_id: COURSE, date: '2027-06-01', time: '08:10', players: 3, booking_reference: null }],
+    rooms: [{ accommodation_id: HOTEL, room_type: 'deluxe', check_in: '2027-06-01', check_out: '2027-06-03', rooms: 2, booking_reference: null }],
+    client_reference: null,
+    notes: null,
+    expires_at: new Date(now.getTime() + 60 * 60_000).toISOString(),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    ...overrides,
+  };
+}
+
+const capacity: HoldCapacity = {
+  tee_times: { [`${COURSE}:2027-06-01:08:10`]: 4 },
+  rooms: {
+    [`${HOTEL}:deluxe:2027-06-01`]: 3,
+    [`${HOTEL}:deluxe:2027-06-02`]: 2,
+  },
+};
+
+describe('findShortfalls', () => {
+  it('accepts a hold that fits', () => {
+    expect(findShortfalls(makeHold(), capacity, [])).toEqual([]);
+  });
+  
+  it('takes out active holds and earlier items of the same hold', () => {
+    const hold = makeHold({
+      tee_times: [
+        { course_id: COURSE, date: '2027-06-01', time: '08:10', players: 2, booking_reference: null },
+        { course_id: COURSE, date: '2027-06-01', time: '08:10', players: 2, booking_reference: null },
+      ],
+      rooms: [],
+    });
+    
+    expect(findShortfalls(hold, capacity, [])).toEqual([]);
+    expect(findShortfalls(hold, capacity, [makeHold({ rooms: [], tee_times: [{ ...hold.tee_times[0], players: 1 }] })])).toEqual([
+      { type: 'tee_time', course_id: COURSE, date: '2027-06-01', time: '08:10', requested: 2, available: 1 },
+    ]);
+  });
+  
+  it('reports a room short on its tightest night', () => {
+    const other = makeHold({ tee_times: [], rooms: [{ ...makeHold().rooms[0], check_in: '2027-06-02', rooms: 1 }] });
+    
+    expect(findShortfalls(makeHold({ tee_times: [] }), capacity, [other])).toEqual([
+      { type: 'room', accommodation_id: HOTEL, room_type: 'deluxe', check_in: '2027-06-01', check_out: '2027-06-03', requested: 2, available: 1 },
+    ]);
+  });
+  
+  it('ignores lapsed, finished and already booked holds', () => {
+    const others = [
+      makeHold({ expires_at: new Date(Date.now() - 1000).toISOString() }),
+      makeHold({ status: 'released' }),
+      makeHold({ status: 'confirm_failed', tee_times: [{ ...makeHold().tee_times[0], booking_reference: 'REF-1' }], rooms: [] }),
+    ];
+    
+    expect(findShortfalls(makeHold(), capacity, others)).toEqual([]);
+  });
+  
+  it('counts a hold being confirmed even after its expiry', () => {
+    const confirming = makeHold({ status: 'confirming', expires_at: new Date(Date.now() - 1000).toISOString(), rooms: [] });
+    
+    expect(findShortfalls(makeHold({ rooms: [] }), capacity, [confirming])).toHaveLength(1);
+  });
+});
+
+describe('InMemoryHoldStore', () => {
+  let store: InMemoryHoldStore;
+  
+  beforeEach(() => {
+    store = new InMemoryHoldStore();
+    setHoldStore(store);
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  
+  it('inserts a hold only while its items are free', async () => {
+    const first = makeHold();
+    expect(await store.insertIfAvailable(first, capacity)).toEqual({ unavailable: [], duplicate_key: false });
+    
+    const second = makeHold();
+    const result = await store.insertIfAvailable(second, capacity);
+    expect(result.unavailable.map(s => s.type)).toEqual(['tee_time', 'room']);
+    expect(await store.get(second.id)).toBeNull();
+  });
+  
+  it('takes held places out of a tee sheet', async () => {
+    await store.insertIfAvailable(makeHold(), capacity);
+    
+    const sheet = await subtractHeldTeeTimes(COURSE, '2027-06-01', [
+      { time: '08:10', capacity: 4, available_players: 4 },
+      { time: '08:20', capacity: 4, available_players: 4 },
+    ]);
+    expect(sheet.map(slot => slot.available_players)).toEqual([1, 4]);
+  });
+  
+  it('reports an idempotency key taken by a concurrent request', async () => {
+    const record = { operator_id: 'operator-1', key: 'k1', request_hash: 'h', created_at: new Date().toISOString() };
+    const first = makeHold();
+    const second = makeHold({ tee_times: [], rooms: [{ ...makeHold().rooms[0], rooms: 1 }] });
+    
+    await store.insertIfAvailable(first, capacity, { ...record, hold_id: first.id });
+    expect(await store.insertIfAvailable(second, capacity, { ...record, hold_id: second.id }))
+      .toEqual({ unavailable: [], duplicate_key: true });
+    expect((await store.getIdempotencyRecord('operator-1', 'k1'))?.hold_id).toBe(first.id);
+  });
+  
+  it('refuses an update based on a stale read', async () => {
+    const hold = makeHold();
+    await store.insertIfAvailable(hold, capacity);
+    
+    const released: Hold = { ...hold, status: 'released', updated_at: new Date(Date.now() + 1).toISOString() };
+    expect(await store.update(released, hold)).toBe(true);
+    expect(await store.update({ ...hold, status: 'confirming' }, hold)).toBe(false);
+    expect((await store.get(hold.id))?.status).toBe('released');
+  });
+  
+  it('expires lapsed holds but not failed confirmations', async () => {
+    const lapsed = makeHold({ expires_at: new Date(Date.now() - 1000).toISOString() });
+    const failed = makeHold({ status: 'confirm_failed', expires_at: new Date(Date.now() - 1000).toISOString() });
+    await store.insertIfAvailable(lapsed, capacity);
+    await store.insertIfAvailable(failed, capacity);
+    
+    expect(await sweepExpiredHolds()).toBe(1);
+    expect((await store.get(lapsed.id))?.status).toBe('expired');
+    expect((await store.get(failed.id))?.status).toBe('confirm_failed');
+    expect((await store.listEvents(lapsed.id)).map(e => e.action)).toEqual(['expired']);
+  });
+  
+  it('leaves a hold alone when another request changed it first', async () => {
+    const hold = makeHold({ expires_at: new Date(Date.now() - 1000).toISOString() });
+    await store.insertIfAvailable(hold, capacity);
+    await store.update({ ...hold, status: 'confirming', updated_at: new Date(Date.now() + 1).toISOString() }, hold);
+    
+    expect((await expireHold(hold)).status).toBe('confirming');
+    expect(await store.listEvents(hold.id)).toEqual([]);
+  });
+  
+  it('marks a stalled confirmation failed', async () => {
+    const hold = makeHold({ status: 'confirming', updated_at: new Date(Date.now() - 11 * 60_000).toISOString() });
+    await store.insertIfAvailable(hold, capacity);
+    
+    await sweepExpiredHolds();
+    
+    expect((await store.get(hold.id))?.status).toBe('confirm_failed');
+    expect((await store.listEvents(hold.id))[0]).toMatchObject({ action: 'confirm_failed', actor: 'system' });
+  });
+  
+  it('forgets finished holds and idempotency keys after a day', async () => {
+    vi.useFakeTimers();
+    const hold = makeHold({ status: 'released' });
+    await store.insertIfAvailable(hold, capacity, {
+      operator_id: 'operator-1',
+      key: 'k2',
+      request_hash: 'h',
+      hold_id: hold.id,
+      created_at: new Date().toISOString(),
+    });
+    
+    vi.advanceTimersByTime(25 * 3_600_000);
+    await sweepExpiredHolds();
+    
+    expect(await store.get(hold.id)).toBeNull();
+    expect(await store.getIdempotencyRecord('operator-1', 'k2')).toBeNull();
+  });
+});
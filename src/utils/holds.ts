@@ -0,0 +1,584 @@
+/**
+ * Hold Store
+ * 
+ * Holds are provisional bookings: tee times and rooms set aside for a
+ * limited time while a client decides, then confirmed (booked with the
+ * supplier), released, or left to expire. Held inventory is subtracted from
+ * what the supplier reports as available, and every change to a hold is
+ * recorded in its audit trail.
+ * 
+ * Holds live in memory by default (HOLD_STORE=memory), which suits a single
+ * server process, or in Postgres through Supabase (HOLD_STORE=database)
+ * using the booking_holds, booking_hold_events and booking_idempotency_keys
+ * tables and insert_booking_hold function described in the README. Either
+ * store checks availability and inserts a hold in one atomic step, and only
+ * saves a change to a hold if nobody else changed it since it was read, so
+ * several server processes can share the database store.
+ */
+
+import { env } from '../config/environment.js';
+import { getSupabaseClient, unwrapQuery } from './database.js';
+import { logger } from './logger.js';
+import { addDays } from './pricing.js';
+import type { TeeTimeSlot } from './teeTimes.js';
+import type { RoomTypeInventory } from './roomInventory.js';
+
+export const HOLD_STATUSES = ['held', 'confirming', 'confirm_failed', 'confirmed', 'released', 'expired'] as const;
+
+export type HoldStatus = typeof HOLD_STATUSES[number];
+
+export const HOLD_ACTIONS = ['created', 'extended', 'released', 'confirmed', 'confirm_failed', 'expired'] as const;
+
+export type HoldAction = typeof HOLD_ACTIONS[number];
+
+/**
+ * Places held on one tee time
+ */
+export interface HeldTeeTime {
+  course_id: string;
+  date: string;
+  time: string;
+  players: number;
+  /** Course booking reference once confirmed */
+  booking_reference: string | null;
+}
+
+/**
+ * Rooms of one type held for a stay
+ */
+export interface HeldRooms {
+  accommodation_id: string;
+  room_type: string;
+  check_in: string;
+  check_out: string;
+  rooms: number;
+  /** Property booking reference once confirmed */
+  booking_reference: string | null;
+}
+
+/**
+ * Provisional booking
+ */
+export interface Hold {
+  id: string;
+  operator_id: string;
+  status: HoldStatus;
+  tee_times: HeldTeeTime[];
+  rooms: HeldRooms[];
+  client_reference: string | null;
+  notes: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Audit trail entry
+ */
+export interface HoldEvent {
+  hold_id: string;
+  action: HoldAction;
+  /** API key id of the caller, or "system" for expiry */
+  actor: string;
+  at: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Result of a request made with an idempotency key
+ */
+export interface IdempotencyRecord {
+  operator_id: string;
+  key: string;
+  /** Fingerprint of the tool and arguments the key was first used with */
+  request_hash: string;
+  hold_id: string;
+  created_at: string;
+}
+
+/**
+ * Places or rooms the suppliers report free, before holds are taken out
+ */
+export interface HoldCapacity {
+  /** Free places by `course_id:date:time` */
+  tee_times: Record<string, number>;
+  /** Free rooms by `accommodation_id:room_type:date`, one entry per night */
+  rooms: Record<string, number>;
+}
+
+/**
+ * Item of a new hold that is no longer available
+ */
+export type Shortfall =
+  | { type: 'tee_time'; course_id: string; date: string; time: string; requested: number; available: number }
+  | { type: 'room'; accommodation_id: string; room_type: string; check_in: string; check_out: string; requested: number; available: number };
+
+/**
+ * Outcome of inserting a hold; it was stored unless something was
+ * unavailable or its idempotency key was taken by a concurrent request
+ */
+export interface HoldInsertResult {
+  unavailable: Shortfall[];
+  duplicate_key: boolean;
+}
+
+/**
+ * Persistence for holds, their audit trail and idempotency keys
+ */
+export interface HoldStore {
+  /**
+   * Store a new hold, and its idempotency key if given, as long as every
+   * item still fits in `capacity` once active holds are taken out
+   */
+  insertIfAvailable(hold: Hold, capacity: HoldCapacity, idempotency?: IdempotencyRecord): Promise<HoldInsertResult>;
+  get(id: string): Promise<Hold | null>;
+  /** Save a hold unless it changed since `previous` was read; false if it did */
+  update(hold: Hold, previous: Hold): Promise<boolean>;
+  /** Holds that count against inventory and include a course or accommodation */
+  listHeldFor(supplierId: string): Promise<Hold[]>;
+  /** Holds in `held` status whose expiry has passed */
+  listLapsed(now: string): Promise<Hold[]>;
+  /** Holds left `confirming` since before a time, by a process that stopped */
+  listStalled(before: string): Promise<Hold[]>;
+  appendEvent(event: HoldEvent): Promise<void>;
+  /** Audit trail of a hold, oldest first */
+  listEvents(holdId: string): Promise<HoldEvent[]>;
+  getIdempotencyRecord(operatorId: string, key: string): Promise<IdempotencyRecord | null>;
+  putIdempotencyRecord(record: IdempotencyRecord): Promise<void>;
+  /** Forget idempotency keys, and finished holds where not kept for audit, older than a time */
+  prune(before: string): Promise<void>;
+}
+
+/**
+ * Statuses whose unbooked items count against inventory
+ */
+const ACTIVE_STATUSES: readonly HoldStatus[] = ['held', 'confirming', 'confirm_failed'];
+
+/**
+ * How long a confirmation may run before the sweeper gives up on it
+ */
+const CONFIRM_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * How long idempotency keys (and finished holds in memory) are kept
+ */
+const RETENTION_MS = 24 * 3_600_000;
+
+function supplierIds(hold: Hold): string[] {
+  return [...new Set([...hold.tee_times.map(t => t.course_id), ...hold.rooms.map(r => r.accommodation_id)])];
+}
+
+/**
+ * Whether a hold's unbooked items are still set aside
+ * 
+ * A hold being confirmed keeps its items until the confirmation ends;
+ * otherwise they lapse with the hold, including after a failed
+ * confirmation, whose booked items the suppliers already count.
+ */
+export function holdsInventory(hold: Hold, now: number = Date.now()): boolean {
+  if (hold.status === 'confirming') return true;
+  return ACTIVE_STATUSES.includes(hold.status) && Date.parse(hold.expires_at) > now;
+}
+
+/**
+ * HoldCapacity key of a tee time
+ */
+export function teeTimeKey(courseId: string, date: string, time: string): string {
+  return `${courseId}:${date}:${time}`;
+}
+
+/**
+ * HoldCapacity key of one night of a room type
+ */
+export function roomNightKey(accommodationId: string, roomType: string, date: string): string {
+  return `${accommodationId}:${roomType}:${date}`;
+}
+
+/**
+ * Nights of a stay, check-in up to the night before check-out
+ */
+function stayNights(checkIn: string, checkOut: string): string[] {
+  const nights: string[] = [];
+  for (let date = checkIn; date < checkOut; date = addDays(date, 1)) {
+    nights.push(date);
+  }
+  return nights;
+}
+
+/**
+ * Places and room nights taken by active holds, keyed like HoldCapacity
+ */
+function heldQuantities(holds: Hold[], now: number = Date.now()): Map<string, number> {
+  const held = new Map<string, number>();
+  const add = (key: string, quantity: number) => held.set(key, (held.get(key) ?? 0) + quantity);
+  
+  for (const hold of holds.filter(h => holdsInventory(h, now))) {
+    for (const t of hold.tee_times.filter(t => !t.booking_reference)) {
+      add(teeTimeKey(t.course_id, t.date, t.time), t.players);
+    }
+    for (const r of hold.rooms.filter(r => !r.booking_reference)) {
+      stayNights(r.check_in, r.check_out).forEach(date => add(roomNightKey(r.accommodation_id, r.room_type, date), r.rooms));
+    }
+  }
+  
+  return held;
+}
+
+/**
+ * Items of a new hold that do not fit in `capacity` once other holds and the
+ * hold's own earlier items are taken out
+ * 
+ * insert_booking_hold applies the same rules in the database.
+ */
+export function findShortfalls(hold: Hold, capacity: HoldCapacity, active: Hold[]): Shortfall[] {
+  const held = heldQuantities(active);
+  const free = (key: string, supply: Record<string, number>) => Math.max((supply[key] ?? 0) - (held.get(key) ?? 0), 0);
+  const take = (key: string, quantity: number) => held.set(key, (held.get(key) ?? 0) + quantity);
+  const shortfalls: Shortfall[] = [];
+  
+  for (const t of hold.tee_times) {
+    const key = teeTimeKey(t.course_id, t.date, t.time);
+    const available = free(key, capacity.tee_times);
+    if (available < t.players) {
+      shortfalls.push({ type: 'tee_time', course_id: t.course_id, date: t.date, time: t.time, requested: t.players, available });
+    } else {
+      take(key, t.players);
+    }
+  }
+  
+  for (const r of hold.rooms) {
+    const keys = stayNights(r.check_in, r.check_out).map(date => roomNightKey(r.accommodation_id, r.room_type, date));
+    const available = Math.min(...keys.map(key => free(key, capacity.rooms)));
+    if (available < r.rooms) {
+      shortfalls.push({
+        type: 'room',
+        accommodation_id: r.accommodation_id,
+        room_type: r.room_type,
+        check_in: r.check_in,
+        check_out: r.check_out,
+        requested: r.rooms,
+        available,
+      });
+    } else {
+      keys.forEach(key => take(key, r.rooms));
+    }
+  }
+  
+  return shortfalls;
+}
+
+/**
+ * Holds kept in process memory
+ */
+export class InMemoryHoldStore implements HoldStore {
+  private holds = new Map<string, Hold>();
+  private events = new Map<string, HoldEvent[]>();
+  private idempotency = new Map<string, IdempotencyRecord>();
+  
+  // Each method checks and writes without awaiting in between, so calls
+  // cannot interleave
+  async insertIfAvailable(hold: Hold, capacity: HoldCapacity, idempotency?: IdempotencyRecord): Promise<HoldInsertResult> {
+    if (idempotency && this.idempotency.has(`${idempotency.operator_id}:${idempotency.key}`)) {
+      return { unavailable: [], duplicate_key: true };
+    }
+    
+    const ids = supplierIds(hold);
+    const unavailable = findShortfalls(hold, capacity, [...this.holds.values()].filter(h => supplierIds(h).some(id => ids.includes(id))));
+    if (unavailable.length > 0) {
+      return { unavailable, duplicate_key: false };
+    }
+    
+    this.holds.set(hold.id, structuredClone(hold));
+    if (idempotency) {
+      this.idempotency.set(`${idempotency.operator_id}:${idempotency.key}`, idempotency);
+    }
+    return { unavailable: [], duplicate_key: false };
+  }
+  
+  async get(id: string): Promise<Hold | null> {
+    const hold = this.holds.get(id);
+    return hold ? structuredClone(hold) : null;
+  }
+  
+  async update(hold: Hold, previous: Hold): Promise<boolean> {
+    const current = this.holds.get(hold.id);
+    if (!current || current.status !== previous.status || current.updated_at !== previous.updated_at) {
+      return false;
+    }
+    
+    this.holds.set(hold.id, structuredClone(hold));
+    return true;
+  }
+  
+  async listHeldFor(supplierId: string): Promise<Hold[]> {
+    return [...this.holds.values()]
+      .filter(h => ACTIVE_STATUSES.includes(h.status) && supplierIds(h).includes(supplierId))
+      .map(h => structuredClone(h));
+  }
+  
+  async listLapsed(now: string): Promise<Hold[]> {
+    return [...this.holds.values()]
+      .filter(h => h.status === 'held' && Date.parse(h.expires_at) <= Date.parse(now))
+      .map(h => structuredClone(h));
+  }
+  
+  async listStalled(before: string): Promise<Hold[]> {
+    return [...this.holds.values()]
+      .filter(h => h.status === 'confirming' && Date.parse(h.updated_at) < Date.parse(before))
+      .map(h => structuredClone(h));
+  }
+  
+  async appendEvent(event: HoldEvent): Promise<void> {
+    this.events.set(event.hold_id, [...(this.events.get(event.hold_id) ?? []), structuredClone(event)]);
+  }
+  
+  async listEvents(holdId: string): Promise<HoldEvent[]> {
+    return structuredClone(this.events.get(holdId) ?? []);
+  }
+  
+  async getIdempotencyRecord(operatorId: string, key: string): Promise<IdempotencyRecord | null> {
+    return this.idempotency.get(`${operatorId}:${key}`) ?? null;
+  }
+  
+  async putIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    this.idempotency.set(`${record.operator_id}:${record.key}`, record);
+  }
+  
+  async prune(before: string): Promise<void> {
+    const cutoff = Date.parse(before);
+    
+    for (const [id, hold] of this.holds) {
+      if (!ACTIVE_STATUSES.includes(hold.status) && Date.parse(hold.updated_at) < cutoff) {
+        this.holds.delete(id);
+        this.events.delete(id);
+      }
+    }
+    for (const [key, record] of this.idempotency) {
+      if (Date.parse(record.created_at) < cutoff || !this.holds.has(record.hold_id)) {
+        this.idempotency.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Holds kept in Postgres through Supabase
+ */
+export class SupabaseHoldStore implements HoldStore {
+  async insertIfAvailable(hold: Hold, capacity: HoldCapacity, idempotency?: IdempotencyRecord): Promise<HoldInsertResult> {
+    return unwrapQuery<HoldInsertResult>(await getSupabaseClient().rpc('insert_booking_hold', {
+      hold: { ...hold, supplier_ids: supplierIds(hold) },
+      capacity,
+      idempotency: idempotency ?? null,
+    }))!;
+  }
+  
+  async get(id: string): Promise<Hold | null> {
+    const row = unwrapQuery(await getSupabaseClient()
+      .from('booking_holds')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle());
+    return row ? toHold(row) : null;
+  }
+  
+  async update(hold: Hold, previous: Hold): Promise<boolean> {
+    const rows = unwrapQuery(await getSupabaseClient()
+      .from('booking_holds')
+      .update({ ...hold, supplier_ids: supplierIds(hold) })
+      .eq('id', hold.id)
+      .eq('status', previous.status)
+      .eq('updated_at', previous.updated_at)
+      .select('id'));
+    return (rows ?? []).length > 0;
+  }
+  
+  async listHeldFor(supplierId: string): Promise<Hold[]> {
+    const rows = unwrapQuery(await getSupabaseClient()
+      .from('booking_holds')
+      .select('*')
+      .in('status', ACTIVE_STATUSES)
+      .contains('supplier_ids', [supplierId]));
+    return (rows ?? []).map(toHold);
+  }
+  
+  async listLapsed(now: string): Promise<Hold[]> {
+    const rows = unwrapQuery(await getSupabaseClient()
+      .from('booking_holds')
+      .select('*')
+      .eq('status', 'held')
+      .lte('expires_at', now));
+    return (rows ?? []).map(toHold);
+  }
+  
+  async listStalled(before: string): Promise<Hold[]> {
+    const rows = unwrapQuery(await getSupabaseClient()
+      .from('booking_holds')
+      .select('*')
+      .eq('status', 'confirming')
+      .lt('updated_at', before));
+    return (rows ?? []).map(toHold);
+  }
+  
+  async appendEvent(event: HoldEvent): Promise<void> {
+    unwrapQuery(await getSupabaseClient().from('booking_hold_events').insert(event));
+  }
+  
+  async listEvents(holdId: string): Promise<HoldEvent[]> {
+    const rows = unwrapQuery<HoldEvent[]>(await getSupabaseClient()
+      .from('booking_hold_events')
+      .select('hold_id, action, actor, at, details')
+      .eq('hold_id', holdId)
+      .order('at', { ascending: true })
+      .order('id', { ascending: true }));
+    return (rows ?? []).map(({ details, ...event }) => (details ? { ...event, details } : event));
+  }
+  
+  async getIdempotencyRecord(operatorId: string, key: string): Promise<IdempotencyRecord | null> {
+    return unwrapQuery<IdempotencyRecord>(await getSupabaseClient()
+      .from('booking_idempotency_keys')
+      .select('operator_id, key, request_hash, hold_id, created_at')
+      .eq('operator_id', operatorId)
+      .eq('key', key)
+      .maybeSingle());
+  }
+  
+  async putIdempotencyRecord(record: IdempotencyRecord): Promise<void> {
+    unwrapQuery(await getSupabaseClient().from('booking_idempotency_keys').upsert(record));
+  }
+  
+  async prune(before: string): Promise<void> {
+    unwrapQuery(await getSupabaseClient()
+      .from('booking_idempotency_keys')
+      .delete()
+      .lt('created_at', before));
+  }
+}
+
+/**
+ * Strip storage-only columns from a booking_holds row
+ */
+function toHold({ supplier_ids: _supplierIds, ...hold }: Hold & { supplier_ids?: string[] }): Hold {
+  return hold;
+}
+
+let store: HoldStore | null = null;
+
+/**
+ * Store in use, chosen by HOLD_STORE
+ */
+export function getHoldStore(): HoldStore {
+  store ??= env.HOLD_STORE === 'database' ? new SupabaseHoldStore() : new InMemoryHoldStore();
+  return store;
+}
+
+/**
+ * Swap in a store
+ */
+export function setHoldStore(next: HoldStore): void {
+  store = next;
+}
+
+/**
+ * Whether a hold still in `held` status has passed its expiry
+ */
+export function isLapsed(hold: Hold, now: number = Date.now()): boolean {
+  return hold.status === 'held' && Date.parse(hold.expires_at) <= now;
+}
+
+/**
+ * Mark a lapsed hold expired and record it in the audit trail
+ * 
+ * Returns the hold as it now is, which is not expired if another request
+ * changed it first.
+ */
+export async function expireHold(hold: Hold): Promise<Hold> {
+  const at = new Date().toISOString();
+  const expired: Hold = { ...hold, status: 'expired', updated_at: at };
+  
+  if (!await getHoldStore().update(expired, hold)) {
+    return (await getHoldStore().get(hold.id)) ?? hold;
+  }
+  await getHoldStore().appendEvent({ hold_id: hold.id, action: 'expired', actor: 'system', at });
+  
+  return expired;
+}
+
+/**
+ * Expire every lapsed hold, give up on confirmations that stopped part way,
+ * and forget old idempotency keys
+ */
+export async function sweepExpiredHolds(): Promise<number> {
+  const now = Date.now();
+  const lapsed = await getHoldStore().listLapsed(new Date(now).toISOString());
+  
+  for (const hold of lapsed) {
+    await expireHold(hold);
+  }
+  
+  // Bookings made before the process stopped are kept on the hold; the
+  // operator retries or releases it
+  for (const hold of await getHoldStore().listStalled(new Date(now - CONFIRM_TIMEOUT_MS).toISOString())) {
+    const at = new Date().toISOString();
+    if (await getHoldStore().update({ ...hold, status: 'confirm_failed', updated_at: at }, hold)) {
+      await getHoldStore().appendEvent({
+        hold_id: hold.id,
+        action: 'confirm_failed',
+        actor: 'system',
+        at,
+        details: { error: 'Confirmation did not finish' },
+      });
+      logger.warn('Hold confirmation did not finish', { hold_id: hold.id });
+    }
+  }
+  
+  await getHoldStore().prune(new Date(now - RETENTION_MS).toISOString());
+  
+  if (lapsed.length > 0) {
+    logger.info('Expired holds', { count: lapsed.length });
+  }
+  
+  return lapsed.length;
+}
+
+/**
+ * Sweep holds every HOLD_SWEEP_INTERVAL_MS
+ * 
+ * Lapsed holds stop counting against inventory as soon as they expire; the
+ * sweep records the expiry in their audit trail.
+ */
+export function startHoldSweeper(): NodeJS.Timeout {
+  const sweeper = setInterval(() => {
+    sweepExpiredHolds().catch(error => logger.warn('Hold sweep failed', { error }));
+  }, env.HOLD_SWEEP_INTERVAL_MS);
+  sweeper.unref();
+  
+  return sweeper;
+}
+
+/**
+ * Tee sheet with held places taken out
+ */
+export async function subtractHeldTeeTimes(courseId: string, date: string, sheet: TeeTimeSlot[]): Promise<TeeTimeSlot[]> {
+  const held = heldQuantities(await getHoldStore().listHeldFor(courseId));
+  
+  return sheet.map(slot => ({
+    ...slot,
+    available_players: Math.max(slot.available_players - (held.get(teeTimeKey(courseId, date, slot.time)) ?? 0), 0),
+  }));
+}
+
+/**
+ * Room inventory with held rooms taken out
+ */
+export async function subtractHeldRooms(accommodationId: string, inventory: RoomTypeInventory[]): Promise<RoomTypeInventory[]> {
+  const held = heldQuantities(await getHoldStore().listHeldFor(accommodationId));
+  
+  return inventory.map(type => ({
+    ...type,
+    nights: type.nights.map(night => ({
+      ...night,
+      rooms_available: Math.max(night.rooms_available - (held.get(roomNightKey(accommodationId, type.room_type, night.date)) ?? 0), 0),
+    })),
+  }));
+}
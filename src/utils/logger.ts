@@ -5,7 +5,7 @@
  */
 
 import winston from 'winston';
-import { env } from '../config/environment.js';
+import { env, isStdioMode } from '../config/environment.js';
 
 const { combine, timestamp, json, errors, printf } = winston.format;
 
@@ -22,6 +22,14 @@ const devFormat = printf(({ level, message, timestamp, ...metadata }) => {
   return msg;
 });
 
+/**
+ * Levels written to stderr. In stdio mode stdout carries the MCP protocol,
+ * so every level must go to stderr.
+ */
+const stderrLevels = isStdioMode
+  ? Object.keys(winston.config.npm.levels)
+  : ['error'];
+
 /**
  * Create logger instance
  */
@@ -35,7 +43,7 @@ export const logger = winston.createLogger({
   defaultMeta: { service: 'fareway-database-mcp' },
   transports: [
     new winston.transports.Console({
-      stderrLevels: ['error'],
+      stderrLevels,
     }),
   ],
 });
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, encodeCursor, paginate } from './pagination.js';
+import { ValidationError } from './errors.js';
+
+describe('cursors', () => {
+  const params = { region: 'Munster', min_rating: 4 };
+  
+  it('round-trips an offset for the same query', () => {
+    expect(decodeCursor(encodeCursor(40, params), params)).toBe(40);
+  });
+  
+  it('ignores cursor, limit and key order when matching the query', () => {
+    const cursor = encodeCursor(20, { ...params, limit: 10 });
+    expect(decodeCursor(cursor, { min_rating: 4, region: 'Munster', limit: 50, cursor })).toBe(20);
+  });
+  
+  it('starts at 0 without a cursor', () => {
+    expect(decodeCursor(undefined, params)).toBe(0);
+  });
+  
+  it('rejects a cursor from a different query', () => {
+    const cursor = encodeCursor(20, params);
+    expect(() => decodeCursor(cursor, { ...params, region: 'Leinster' })).toThrow(ValidationError);
+  });
+  
+  it('matches nested filters whatever their key order', () => {
+    const nested = { ...params, near: { lat: 52.1, lng: -9.5 } };
+    const cursor = encodeCursor(20, nested);
+    expect(decodeCursor(cursor, { ...params, near: { lng: -9.5, lat: 52.1 } })).toBe(20);
+  });
+  
+  it('rejects a cursor after a nested filter changes', () => {
+    const cursor = encodeCursor(20, { ...params, near: { lat: 52.1, lng: -9.5 } });
+    expect(() => decodeCursor(cursor, { ...params, near: { lat: 53.3, lng: -6.3 } })).toThrow(ValidationError);
+  });
+  
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor', params)).toThrow('Malformed cursor');
+    expect(() => decodeCursor(Buffer.from('{"o":-1,"f":"x"}').toString('base64url'), params)).toThrow('Malformed cursor');
+  });
+});
+
+describe('paginate', () => {
+  const rows = Array.from({ length: 5 }, (_, i) => i);
+  
+  it('walks every row once and ends without a cursor', () => {
+    const first = paginate(rows, {}, 2);
+    const second = paginate(rows, { cursor: first.pageInfo.next_cursor! }, 2);
+    const third = paginate(rows, { cursor: second.pageInfo.next_cursor! }, 2);
+    
+    expect([...first.page, ...second.page, ...third.page]).toEqual(rows);
+    expect(third.pageInfo).toEqual({ total_count: 5, next_cursor: null });
+  });
+});
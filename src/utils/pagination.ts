@@ -0,0 +1,116 @@
+/**
+ * Pagination Utility
+ * 
+ * Opaque cursors for list-returning tools. A cursor records the offset of
+ * the next page and a fingerprint of the query it belongs to, so it cannot
+ * be replayed against different filters. Every paginated query has a total
+ * order (ties broken by id), which keeps pages stable between calls.
+ */
+
+import { createHash } from 'node:crypto';
+import { ValidationError } from './errors.js';
+
+/**
+ * Pagination metadata returned alongside a page
+ */
+export interface PageInfo {
+  total_count: number;
+  next_cursor: string | null;
+}
+
+interface CursorPayload {
+  o: number;
+  f: string;
+}
+
+/**
+ * Fingerprint of the query a cursor belongs to (ignores cursor and limit)
+ */
+function fingerprint(params: Record<string, unknown>): string {
+  const { cursor: _cursor, limit: _limit, ...query } = params;
+  const stable = JSON.stringify(sortKeys(query));
+  
+  return createHash('sha256').update(stable).digest('base64url').slice(0, 12);
+}
+
+/**
+ * Copy of a value with object keys sorted at every level; arrays keep
+ * their order
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== 'object') return value;
+  
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+}
+
+/**
+ * Encode the cursor for the page starting at `offset`
+ */
+export function encodeCursor(offset: number, params: Record<string, unknown>): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint(params) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor into the offset of the page it points to (0 when absent)
+ */
+export function decodeCursor(cursor: string | undefined, params: Record<string, unknown>): number {
+  if (!cursor) return 0;
+  
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidCursor('Malformed cursor');
+  }
+  
+  if (!Number.isInteger(payload?.o) || payload.o < 0) {
+    throw invalidCursor('Malformed cursor');
+  }
+  
+  if (payload.f !== fingerprint(params)) {
+    throw invalidCursor('Cursor belongs to a different query; repeat the original filters');
+  }
+  
+  return payload.o;
+}
+
+function invalidCursor(message: string): ValidationError {
+  return new ValidationError(message, [{ field: 'cursor', message, code: 'invalid_cursor' }]);
+}
+
+/**
+ * Page info for a page of `returned` rows starting at `offset`
+ */
+export function pageInfo(
+  params: Record<string, unknown>,
+  offset: number,
+  returned: number,
+  totalCount: number
+): PageInfo {
+  const nextOffset = offset + returned;
+  
+  return {
+    total_count: totalCount,
+    next_cursor: returned > 0 && nextOffset < totalCount ? encodeCursor(nextOffset, params) : null,
+  };
+}
+
+/**
+ * Slice an in-memory, already-sorted list into the requested page
+ */
+export function paginate<T>(
+  rows: T[],
+  params: Record<string, unknown> & { cursor?: string },
+  limit: number
+): { page: T[]; pageInfo: PageInfo } {
+  const offset = decodeCursor(params.cursor, params);
+  const page = rows.slice(offset, offset + limit);
+  
+  return { page, pageInfo: pageInfo(params, offset, page.length, rows.length) };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { compareRatePrecedence, selectApplicableRate } from './pricing.js';
+import type { NegotiatedRate } from './pricing.js';
+
+const SUPPLIER = 'course-1';
+
+function rate(id: string, overrides: Partial<NegotiatedRate> = {}): NegotiatedRate {
+  return {
+    id,
+    supplier_id: SUPPLIER,
+    supplier_type: 'golf_course',
+    rate_cents: 15000,
+    discount_percentage: null,
+    valid_from: null,
+    valid_until: null,
+    ...overrides,
+  };
+}
+
+describe('compareRatePrecedence', () => {
+  it('prefers a seasonal window over a year-round contract over an open-ended rate', () => {
+    const seasonal = rate('a', { valid_from: '2027-06-01', valid_until: '2027-08-31' });
+    const yearRound = rate('b', { valid_from: '2027-01-01', valid_until: '2027-12-31' });
+    const openEnded = rate('c', { valid_from: '2026-01-01' });
+    
+    expect([openEnded, yearRound, seasonal].sort(compareRatePrecedence).map(r => r.id)).toEqual(['a', 'b', 'c']);
+  });
+  
+  it('breaks ties by latest start, then absolute rate over discount, then id', () => {
+    const earlier = rate('a', { valid_from: '2027-01-01' });
+    const later = rate('b', { valid_from: '2027-03-01' });
+    expect([earlier, later].sort(compareRatePrecedence)[0].id).toBe('b');
+    
+    const discount = rate('c', { rate_cents: null, discount_percentage: 10 });
+    const absolute = rate('d');
+    expect([discount, absolute].sort(compareRatePrecedence)[0].id).toBe('d');
+    
+    expect([rate('f'), rate('e')].sort(compareRatePrecedence)[0].id).toBe('e');
+  });
+});
+
+describe('selectApplicableRate', () => {
+  const rates = [
+    rate('year', { valid_from: '2027-01-01', valid_until: '2027-12-31', rate_cents: 20000 }),
+    rate('summer', { valid_from: '2027-06-01', valid_until: '2027-08-31', rate_cents: 25000 }),
+    rate('other', { supplier_id: 'course-2' }),
+  ];
+  
+  it('picks the most specific rate valid on the date', () => {
+    expect(selectApplicableRate(rates, SUPPLIER, '2027-07-15')?.id).toBe('summer');
+    expect(selectApplicableRate(rates, SUPPLIER, '2027-05-31')?.id).toBe('year');
+  });
+  
+  it('treats validity dates as inclusive', () => {
+    expect(selectApplicableRate(rates, SUPPLIER, '2027-08-31')?.id).toBe('summer');
+    expect(selectApplicableRate(rates, SUPPLIER, '2027-09-01')?.id).toBe('year');
+  });
+  
+  it('returns undefined when no rate for the supplier is valid', () => {
+    expect(selectApplicableRate(rates, SUPPLIER, '2028-01-01')).toBeUndefined();
+    expect(selectApplicableRate(rates, 'course-3', '2027-07-15')).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Pricing Utility
+ * 
+ * Applies operator-negotiated rates (operator_supplier_rates) to supplier
+ * rack rates. A rate row carries either an absolute `rate_cents` or a
+ * `discount_percentage` off the rack rate, and is valid between
+ * `valid_from` and `valid_until` (inclusive, open-ended when null).
+ */
+
+import { getSupabaseClient, unwrapQuery } from './database.js';
+import type { PriceConverter } from './currency.js';
+
+/**
+ * Negotiated rate row (subset of operator_supplier_rates)
+ */
+export interface NegotiatedRate {
+  id: string;
+  supplier_id: string;
+  supplier_type: string;
+  rate_cents: number | null;
+  discount_percentage: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+}
+
+/**
+ * Which rule produced a price
+ */
+export type PricingRule = 'negotiated_rate' | 'negotiated_discount' | 'rack_rate' | 'unpriced';
+
+/**
+ * Effective price for one supplier, as attached to search results
+ */
+export interface EffectivePrice {
+  price_cents: number;
+  rack_price_cents: number | null;
+  savings_cents: number;
+  savings_percentage: number;
+  pricing_rule: PricingRule;
+  rate_id: string | null;
+}
+
+/**
+ * Resolved unit price
+ */
+export interface ResolvedPrice {
+  unit_price_cents: number;
+  rack_price_cents: number | null;
+  pricing_rule: PricingRule;
+  rate_id: string | null;
+}
+
+/**
+ * Today's date as YYYY-MM-DD (UTC)
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a rate is valid on a date (YYYY-MM-DD)
+ */
+export function isRateValidOn(rate: NegotiatedRate, date: string): boolean {
+  const from = rate.valid_from?.slice(0, 10);
+  const until = rate.valid_until?.slice(0, 10);
+  
+  return (!from || from <= date) && (!until || date <= until);
+}
+
+/**
+ * Whether a rate is valid at any point in a date range (inclusive)
+ */
+export function isRateValidDuring(rate: NegotiatedRate, start: string, end: string): boolean {
+  const from = rate.valid_from?.slice(0, 10);
+  const until = rate.valid_until?.slice(0, 10);
+  
+  return (!from || from <= end) && (!until || start <= until);
+}
+
+/**
+ * Length of a rate's validity window in days (Infinity when open-ended)
+ */
+function windowDays(rate: NegotiatedRate): number {
+  if (!rate.valid_from || !rate.valid_until) return Infinity;
+  
+  return (Date.parse(rate.valid_until.slice(0, 10)) - Date.parse(rate.valid_from.slice(0, 10))) / 86_400_000;
+}
+
+/**
+ * Order overlapping rates so the one that should apply comes first
+ * 
+ * The most specific rate wins: a seasonal window beats a year-round
+ * contract, which beats an open-ended one. Ties go to the most recently
+ * started window, then to an absolute rate over a discount, then by id
+ * so the choice never depends on row order.
+ */
+export function compareRatePrecedence(a: NegotiatedRate, b: NegotiatedRate): number {
+  const byWindow = windowDays(a) - windowDays(b);
+  if (byWindow !== 0 && !Number.isNaN(byWindow)) return byWindow;
+  
+  const fromA = a.valid_from?.slice(0, 10) ?? '';
+  const fromB = b.valid_from?.slice(0, 10) ?? '';
+  if (fromA !== fromB) return fromA < fromB ? 1 : -1;
+  
+  const absoluteA = a.rate_cents !== null ? 0 : 1;
+  const absoluteB = b.rate_cents !== null ? 0 : 1;
+  if (absoluteA !== absoluteB) return absoluteA - absoluteB;
+  
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Pick the operator's rate for a supplier that is valid on a date
+ */
+export function selectApplicableRate<T extends NegotiatedRate>(
+  rates: T[],
+  supplierId: string,
+  date: string
+): T | undefined {
+  return rates
+    .filter(r => r.supplier_id === supplierId && isRateValidOn(r, date))
+    .sort(compareRatePrecedence)[0];
+}
+
+/**
+ * Days from one date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / 86_400_000);
+}
+
+/**
+ * Apply a negotiated rate (if any) to a rack price
+ */
+export function applyRate(rackPriceCents: number | null, rate?: NegotiatedRate): ResolvedPrice {
+  if (rate && rate.rate_cents !== null) {
+    return {
+      unit_price_cents: rate.rate_cents,
+      rack_price_cents: rackPriceCents,
+      pricing_rule: 'negotiated_rate',
+      rate_id: rate.id,
+    };
+  }
+  
+  if (rate && rate.discount_percentage !== null && rackPriceCents !== null) {
+    return {
+      unit_price_cents: Math.round(rackPriceCents * (1 - rate.discount_percentage / 100)),
+      rack_price_cents: rackPriceCents,
+      pricing_rule: 'negotiated_discount',
+      rate_id: rate.id,
+    };
+  }
+  
+  return {
+    unit_price_cents: rackPriceCents ?? 0,
+    rack_price_cents: rackPriceCents,
+    pricing_rule: rackPriceCents === null ? 'unpriced' : 'rack_rate',
+    rate_id: null,
+  };
+}
+
+/**
+ * Savings of a resolved price versus the rack rate
+ */
+export function toEffectivePrice(price: ResolvedPrice): EffectivePrice {
+  const rack = price.rack_price_cents;
+  const savings = rack === null ? 0 : Math.max(0, rack - price.unit_price_cents);
+  
+  return {
+    price_cents: price.unit_price_cents,
+    rack_price_cents: rack,
+    savings_cents: savings,
+    savings_percentage: rack ? Math.round((savings / rack) * 10_000) / 100 : 0,
+    pricing_rule: price.pricing_rule,
+    rate_id: price.rate_id,
+  };
+}
+
+/**
+ * A resolved price in another currency, so that totals built from it add up
+ * to its converted line prices
+ */
+export function convertResolvedPrice(price: ResolvedPrice, prices: PriceConverter): ResolvedPrice {
+  return {
+    ...price,
+    unit_price_cents: prices.fromBase(price.unit_price_cents),
+    rack_price_cents: price.rack_price_cents === null ? null : prices.fromBase(price.rack_price_cents),
+  };
+}
+
+/**
+ * Load an operator's rates, optionally limited to some suppliers
+ */
+export async function fetchOperatorRates(
+  operatorId: string,
+  supplierIds?: string[]
+): Promise<NegotiatedRate[]> {
+  if (supplierIds && supplierIds.length === 0) return [];
+  
+  let query = getSupabaseClient()
+    .from('operator_supplier_rates')
+    .select('id, supplier_id, supplier_type, rate_cents, discount_percentage, valid_from, valid_until')
+    .eq('operator_id', operatorId);
+  
+  if (supplierIds) {
+    query = query.in('supplier_id', supplierIds);
+  }
+  
+  return unwrapQuery(await query) ?? [];
+}
+
+/**
+ * Attach the operator's effective price on a date to each row
+ */
+export async function annotateEffectivePrices<T extends { id: string }>(
+  rows: T[],
+  rackPrice: (row: T) => number | null,
+  operatorId: string,
+  date: string
+): Promise<Array<T & { effective_price: EffectivePrice }>> {
+  const rates = await fetchOperatorRates(operatorId, rows.map(r => r.id));
+  
+  return rows.map(row => ({
+    ...row,
+    effective_price: toEffectivePrice(
+      applyRate(rackPrice(row), selectApplicableRate(rates, row.id, date))
+    ),
+  }));
+}
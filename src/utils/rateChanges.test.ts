@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, filtered by the eq and in calls the planner makes
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  interface Query {
+    select(): Query;
+    eq(column: string, value: unknown): Query;
+    in(column: string, values: unknown[]): Query;
+    then(resolve: (response: { data: Row[]; error: null }) => unknown): unknown;
+  }
+  const query = (rows: Row[]): Query => ({
+    select: () => query(rows),
+    eq: (column: string, value: unknown) => query(rows.filter(r => r[column] === value)),
+    in: (column: string, values: unknown[]) => query(rows.filter(r => values.includes(r[column]))),
+    then: resolve => resolve({ data: rows, error: null }),
+  });
+  return { tables: {} as Record<string, Row[]>, query };
+});
+
+vi.mock('./database.js', () => ({
+  getSupabaseClient: () => ({ from: (table: string) => db.query(db.tables[table] ?? []) }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+import { checkRateChanges, planRateChanges } from './rateChanges.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import type { RateChangeParams, SupplierRate } from '../types/tools.js';
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const OTHER_OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000bb';
+const COURSE = '6f1c5a3e-0000-4000-8000-000000000001';
+const HOTEL = '6f1c5a3e-0000-4000-8000-000000000002';
+
+function existing(id: string, overrides: Partial<SupplierRate> = {}): SupplierRate {
+  return {
+    id,
+    operator_id: OPERATOR,
+    supplier_id: COURSE,
+    supplier_type: 'golf_course',
+    rate_cents: 15000,
+    discount_percentage: null,
+    valid_from: '2099-01-01',
+    valid_until: '2099-06-30',
+    notes: null,
+    ...overrides,
+  };
+}
+
+const newRate = (overrides: Partial<RateChangeParams> = {}): RateChangeParams => ({
+  supplier_id: COURSE,
+  supplier_type: 'golf_course',
+  rate_cents: 16000,
+  valid_from: '2099-07-01',
+  valid_until: '2099-12-31',
+  ...overrides,
+});
+
+async function problems(changes: RateChangeParams[]) {
+  const { fields } = await checkRateChanges(OPERATOR, changes, i => `rates.${i}.`);
+  return fields.map(f => [f.field, f.code]);
+}
+
+beforeEach(() => {
+  db.tables = {
+    golf_courses: [{ id: COURSE }],
+    accommodations: [{ id: HOTEL }],
+    operator_supplier_rates: [existing('r1'), existing('r9', { operator_id: OTHER_OPERATOR })],
+  };
+});
+
+describe('planRateChanges', () => {
+  it('plans creates, updates and unchanged rows', async () => {
+    const plan = await planRateChanges(OPERATOR, [
+      newRate(),
+      { rate_id: 'r1', notes: 'Dunluce Links' },
+    ]);
+    
+    expect(plan.created).toHaveLength(1);
+    expect(plan.created[0]).toMatchObject({ operator_id: OPERATOR, rate_cents: 16000, discount_percentage: null });
+    expect(plan.updated).toEqual([{ before: existing('r1'), after: existing('r1', { notes: 'Dunluce Links' }) }]);
+    
+    const again = await planRateChanges(OPERATOR, [{ rate_id: 'r1', rate_cents: 15000 }]);
+    expect(again.unchanged).toEqual([existing('r1')]);
+  });
+  
+  it('throws a ValidationError listing every problem', async () => {
+    await expect(planRateChanges(OPERATOR, [newRate({ rate_cents: null })])).rejects.toThrow(ValidationError);
+  });
+  
+  it('needs exactly one of rate_cents or discount_percentage', async () => {
+    expect(await problems([
+      newRate({ rate_cents: null }),
+      newRate({ supplier_id: HOTEL, supplier_type: 'accommodation', discount_percentage: 10 }),
+    ])).toEqual([
+      ['rates.0.rate_cents', 'rate_or_discount'],
+      ['rates.1.rate_cents', 'rate_or_discount'],
+    ]);
+  });
+  
+  it('rejects a window that ends before it starts', async () => {
+    expect(await problems([newRate({ valid_from: '2099-08-01', valid_until: '2099-07-31' })]))
+      .toEqual([['rates.0.valid_until', 'invalid_date_range']]);
+  });
+  
+  it('rejects a window overlapping another rate for the supplier', async () => {
+    const { fields } = await checkRateChanges(OPERATOR, [newRate({ valid_from: '2099-06-30' })]);
+    
+    expect(fields).toEqual([{
+      field: 'valid_from',
+      message: 'Overlaps rate r1 (2099-01-01 to 2099-06-30)',
+      code: 'overlapping_rate',
+    }]);
+  });
+  
+  it('names the earlier row when rows in a batch overlap', async () => {
+    const { fields } = await checkRateChanges(OPERATOR, [
+      newRate(),
+      newRate({ valid_from: '2099-12-01', valid_until: null }),
+    ], i => `rates.${i}.`);
+    
+    expect(fields).toEqual([{
+      field: 'rates.1.valid_from',
+      message: 'Overlaps rates.0 (2099-07-01 to 2099-12-31)',
+      code: 'overlapping_rate',
+    }]);
+  });
+  
+  it('allows adjacent windows and the same window for another supplier', async () => {
+    expect(await problems([
+      newRate(),
+      newRate({ supplier_id: HOTEL, supplier_type: 'accommodation', valid_from: '2099-01-01' }),
+    ])).toEqual([]);
+  });
+  
+  it('checks an updated window against the other rates', async () => {
+    db.tables.operator_supplier_rates.push(existing('r2', { valid_from: '2099-07-01', valid_until: '2099-12-31' }));
+    
+    expect(await problems([{ rate_id: 'r2', valid_from: '2099-06-01' }])).toEqual([['rates.0.valid_from', 'overlapping_rate']]);
+  });
+  
+  it('rejects unknown suppliers, missing supplier fields and repeated rate ids', async () => {
+    expect(await problems([
+      newRate({ supplier_id: '6f1c5a3e-0000-4000-8000-000000000099' }),
+      { rate_cents: 12000 },
+      { rate_id: 'r1', notes: 'first' },
+      { rate_id: 'r1', notes: 'second' },
+    ])).toEqual([
+      ['rates.1.supplier_id', 'required'],
+      ['rates.3.rate_id', 'duplicate_rate'],
+      ['rates.0.supplier_id', 'unknown_supplier'],
+    ]);
+  });
+  
+  it('reports another operator\'s rate as not found', async () => {
+    await expect(planRateChanges(OPERATOR, [{ rate_id: 'r9', notes: 'mine now' }])).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Rate Changes
+ * 
+ * Validates and saves operator_supplier_rates rows. Changes are planned as a
+ * batch so nothing is written unless every row is valid: each rate needs an
+ * absolute rate or a discount, a validity window that does not end before it
+ * starts, a known supplier, and no overlap with any other rate the operator
+ * has for the same supplier. Saving clears the operator's cached rate and
+ * supplier lookups.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { getSupabaseClient, unwrapQuery } from './database.js';
+import { clearCachePattern } from './cache.js';
+import { NotFoundError, ValidationError } from './errors.js';
+import type { FieldError } from './errors.js';
+import { isRateValidDuring } from './pricing.js';
+import type { RateChangeParams, SupplierRate } from '../types/tools.js';
+
+/**
+ * Columns selected for full rate rows
+ */
+export const RATE_COLUMNS = `
+  id,
+  operator_id,
+  supplier_id,
+  supplier_type,
+  rate_cents,
+  discount_percentage,
+  valid_from,
+  valid_until,
+  notes
+`;
+
+/**
+ * What one change does to a rate
+ */
+export interface PlannedRate {
+  action: 'create' | 'update' | 'unchanged';
+  before: SupplierRate | null;
+  after: SupplierRate;
+}
+
+/**
+ * Rates a batch of changes would create and update
+ */
+export interface RatePlan {
+  created: SupplierRate[];
+  updated: Array<{ before: SupplierRate; after: SupplierRate }>;
+  /** Updates that change nothing */
+  unchanged: SupplierRate[];
+  /** Outcome of each change, by its index in the batch */
+  changes: Map<number, PlannedRate>;
+}
+
+/**
+ * Columns a change can alter
+ */
+const RATE_FIELDS = [
+  'supplier_id',
+  'supplier_type',
+  'rate_cents',
+  'discount_percentage',
+  'valid_from',
+  'valid_until',
+  'notes',
+] as const;
+
+/**
+ * Catalogue table of each supplier type that has one
+ */
+const SUPPLIER_TABLES: Record<string, string> = {
+  golf_course: 'golf_courses',
+  accommodation: 'accommodations',
+};
+
+/**
+ * Load all of an operator's rates
+ */
+export async function fetchRateRows(operatorId: string): Promise<SupplierRate[]> {
+  return unwrapQuery<SupplierRate[]>(
+    await getSupabaseClient()
+      .from('operator_supplier_rates')
+      .select(RATE_COLUMNS)
+      .eq('operator_id', operatorId)
+  ) ?? [];
+}
+
+/**
+ * Validate a batch of rate changes against the operator's current rates
+ * 
+ * `fieldPrefix` maps a change's index to the prefix of its field names in
+ * validation errors (e.g. "rates.3."). Throws NotFoundError for a rate_id
+ * the operator does not have and ValidationError listing every other problem.
+ */
+export async function planRateChanges(
+  operatorId: string,
+  changes: RateChangeParams[],
+  fieldPrefix: (index: number) => string = () => ''
+): Promise<RatePlan> {
+  const { plan, fields } = await checkRateChanges(operatorId, changes, fieldPrefix);
+  
+  if (fields.length > 0) {
+    throw new ValidationError('Invalid supplier rates', fields);
+  }
+  
+  return plan;
+}
+
+/**
+ * Like planRateChanges, but returns the problems found instead of throwing
+ */
+export async function checkRateChanges(
+  operatorId: string,
+  changes: RateChangeParams[],
+  fieldPrefix: (index: number) => string = () => ''
+): Promise<{ plan: RatePlan; fields: FieldError[] }> {
+  const existing = await fetchRateRows(operatorId);
+  const byId = new Map(existing.map(r => [r.id, r]));
+  const fields: FieldError[] = [];
+  const plan: RatePlan = { created: [], updated: [], unchanged: [], changes: new Map() };
+  const written = new Map<string, number>();
+  
+  changes.forEach((change, i) => {
+    const prefix = fieldPrefix(i);
+    const { rate_id: rateId, ...values } = change;
+    const defined = Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined));
+    
+    if (rateId && written.has(rateId)) {
+      fields.push({ field: `${prefix}rate_id`, message: `Rate ${rateId} is changed more than once`, code: 'duplicate_rate' });
+      return;
+    }
+    
+    let rate: SupplierRate;
+    if (rateId) {
+      const before = byId.get(rateId);
+      // Other operators' rates are never loaded, so they are reported missing
+      if (!before) {
+        throw new NotFoundError('Rate', rateId);
+      }
+      rate = { ...before, ...defined };
+      
+      if (changedFields(before, rate).length === 0) {
+        plan.unchanged.push(before);
+        plan.changes.set(i, { action: 'unchanged', before, after: before });
+      } else {
+        plan.updated.push({ before, after: rate });
+        plan.changes.set(i, { action: 'update', before, after: rate });
+      }
+    } else {
+      if (!change.supplier_id || !change.supplier_type) {
+        fields.push({ field: `${prefix}supplier_id`, message: 'supplier_id and supplier_type are required for a new rate', code: 'required' });
+        return;
+      }
+      rate = {
+        id: randomUUID(),
+        operator_id: operatorId,
+        supplier_id: change.supplier_id,
+        supplier_type: change.supplier_type,
+        rate_cents: change.rate_cents ?? null,
+        discount_percentage: change.discount_percentage ?? null,
+        valid_from: change.valid_from ?? null,
+        valid_until: change.valid_until ?? null,
+        notes: change.notes ?? null,
+      };
+      plan.created.push(rate);
+      plan.changes.set(i, { action: 'create', before: null, after: rate });
+    }
+    
+    written.set(rate.id, i);
+    byId.set(rate.id, rate);
+    
+    if ((rate.rate_cents === null) === (rate.discount_percentage === null)) {
+      fields.push({ field: `${prefix}rate_cents`, message: 'Give exactly one of rate_cents or discount_percentage', code: 'rate_or_discount' });
+    }
+    if (rate.valid_from && rate.valid_until && rate.valid_until.slice(0, 10) < rate.valid_from.slice(0, 10)) {
+      fields.push({ field: `${prefix}valid_until`, message: 'Must not be before valid_from', code: 'invalid_date_range' });
+    }
+  });
+  
+  const rates = [...byId.values()];
+  fields.push(...await findUnknownSuppliers(rates.filter(r => written.has(r.id)), written, fieldPrefix));
+  
+  // Each written rate is checked against every other rate for its supplier;
+  // overlaps already in the table between rates left untouched are not
+  for (const [id, i] of written) {
+    const rate = byId.get(id)!;
+    const clash = rates.find(other => other.id !== id
+      && other.supplier_id === rate.supplier_id
+      && (!written.has(other.id) || written.get(other.id)! < i)
+      && isRateValidDuring(other, rate.valid_from?.slice(0, 10) ?? '0000-01-01', rate.valid_until?.slice(0, 10) ?? '9999-12-31'));
+    
+    if (clash) {
+      const source = written.has(clash.id)
+        ? fieldPrefix(written.get(clash.id)!).replace(/\.$/, '')
+        : `rate ${clash.id}`;
+      fields.push({
+        field: `${fieldPrefix(i)}valid_from`,
+        message: `Overlaps ${source} (${clash.valid_from?.slice(0, 10) ?? 'no start'} to ${clash.valid_until?.slice(0, 10) ?? 'open-ended'})`,
+        code: 'overlapping_rate',
+      });
+    }
+  }
+  
+  return { plan, fields };
+}
+
+/**
+ * Fields that differ between two versions of a rate
+ */
+export function changedFields(before: SupplierRate, after: SupplierRate): string[] {
+  return RATE_FIELDS.filter(field => before[field] !== after[field]);
+}
+
+/**
+ * Save a planned batch and clear the operator's cached rate lookups
+ */
+export async function applyRatePlan(operatorId: string, plan: RatePlan): Promise<SupplierRate[]> {
+  const rows = [...plan.created, ...plan.updated.map(u => u.after)];
+  if (rows.length === 0) return [];
+  
+  // One upsert is one statement, so the batch is saved all or nothing
+  const saved = unwrapQuery<SupplierRate[]>(
+    await getSupabaseClient()
+      .from('operator_supplier_rates')
+      .upsert(rows)
+      .select(RATE_COLUMNS)
+  );
+  
+  await invalidateRateCaches(operatorId);
+  
+  return saved ?? rows;
+}
+
+/**
+ * Clear cached get_supplier_rates and get_operator_suppliers results for an
+ * operator
+ */
+export async function invalidateRateCaches(operatorId: string): Promise<void> {
+  await Promise.all([
+    clearCachePattern(`rates:${operatorId}:*`),
+    clearCachePattern(`suppliers:${operatorId}:*`),
+  ]);
+}
+
+/**
+ * Field errors for rates naming a course or accommodation that does not
+ * exist (transport suppliers are not catalogued)
+ */
+async function findUnknownSuppliers(
+  rates: SupplierRate[],
+  written: Map<string, number>,
+  fieldPrefix: (index: number) => string
+): Promise<FieldError[]> {
+  const fields: FieldError[] = [];
+  
+  for (const [type, table] of Object.entries(SUPPLIER_TABLES)) {
+    const ids = [...new Set(rates.filter(r => r.supplier_type === type).map(r => r.supplier_id))];
+    if (ids.length === 0) continue;
+    
+    const found = unwrapQuery<Array<{ id: string }>>(
+      await getSupabaseClient().from(table).select('id').in('id', ids)
+    ) ?? [];
+    
+    for (const rate of rates) {
+      if (rate.supplier_type === type && !found.some(row => row.id === rate.supplier_id)) {
+        fields.push({
+          field: `${fieldPrefix(written.get(rate.id)!)}supplier_id`,
+          message: `No ${type.replace('_', ' ')} ${rate.supplier_id}`,
+          code: 'unknown_supplier',
+        });
+      }
+    }
+  }
+  
+  return fields;
+}
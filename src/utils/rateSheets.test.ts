@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, filtered by the eq and in calls the import makes
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>;
+  interface Query {
+    select(): Query;
+    eq(column: string, value: unknown): Query;
+    in(column: string, values: unknown[]): Query;
+    then(resolve: (response: { data: Row[]; error: null }) => unknown): unknown;
+  }
+  const query = (rows: Row[]): Query => ({
+    select: () => query(rows),
+    eq: (column: string, value: unknown) => query(rows.filter(r => r[column] === value)),
+    in: (column: string, values: unknown[]) => query(rows.filter(r => values.includes(r[column]))),
+    then: resolve => resolve({ data: rows, error: null }),
+  });
+  return { tables: {} as Record<string, Row[]>, query };
+});
+
+vi.mock('./database.js', () => ({
+  getSupabaseClient: () => ({ from: (table: string) => db.query(db.tables[table] ?? []) }),
+  unwrapQuery: (response: { data: unknown }) => response.data,
+}));
+
+await vi.hoisted(async () => {
+  const { writeFileSync } = await import('node:fs');
+  const { tmpdir } = await import('node:os');
+  const { join } = await import('node:path');
+  const file = join(tmpdir(), `fx-rates-${process.pid}.json`);
+  writeFileSync(file, JSON.stringify({ rates: { GBP: 0.86 } }));
+  process.env.FX_RATES_FILE = file;
+});
+
+const { diffRateSheet, exportRateSheet, parseAmount, parseCsv, toCsv } = await import('./rateSheets.js');
+const { getPriceConverter } = await import('./currency.js');
+const { ValidationError } = await import('./errors.js');
+
+const OPERATOR = '6f1c5a3e-0000-4000-8000-0000000000aa';
+const COURSE = '6f1c5a3e-0000-4000-8000-000000000001';
+
+describe('parseAmount', () => {
+  it('reads plain and decimal-point amounts', () => {
+    expect(parseAmount('185')).toBe(185);
+    expect(parseAmount('185.50')).toBe(185.5);
+    expect(parseAmount('€185.5')).toBe(185.5);
+  });
+  
+  it('reads a decimal comma', () => {
+    expect(parseAmount('185,50')).toBe(185.5);
+    expect(parseAmount('185,5 €')).toBe(185.5);
+  });
+  
+  it('reads English thousands separators', () => {
+    expect(parseAmount('€1,250.00')).toBe(1250);
+    expect(parseAmount('1,250,000.75')).toBe(1250000.75);
+    expect(parseAmount('1,250,000')).toBe(1250000);
+  });
+  
+  it('reads European thousands separators', () => {
+    expect(parseAmount('1.250,00')).toBe(1250);
+    expect(parseAmount('1.250.000,75 €')).toBe(1250000.75);
+    expect(parseAmount('1.250.000')).toBe(1250000);
+  });
+  
+  it('rejects a lone separator before three digits as ambiguous', () => {
+    expect(parseAmount('1.250')).toBeNaN();
+    expect(parseAmount('1,250')).toBeNaN();
+    expect(parseAmount('€1,250')).toBeNaN();
+  });
+  
+  it('rejects badly grouped or empty amounts', () => {
+    expect(parseAmount('1,25.00')).toBeNaN();
+    expect(parseAmount('12.50,0.0')).toBeNaN();
+    expect(parseAmount('n/a')).toBeNaN();
+    expect(parseAmount('')).toBeNaN();
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits records and notes the line each starts on', () => {
+    expect(parseCsv('supplier,rate\nLahinch,185.00\n\nAdare Manor,240\n')).toEqual([
+      { line: 1, cells: ['supplier', 'rate'] },
+      { line: 2, cells: ['Lahinch', '185.00'] },
+      { line: 4, cells: ['Adare Manor', '240'] },
+    ]);
+  });
+  
+  it('detects semicolon and tab delimiters from the header', () => {
+    expect(parseCsv('supplier;rate\r\nLahinch;1.250,00').map(r => r.cells)).toEqual([['supplier', 'rate'], ['Lahinch', '1.250,00']]);
+    expect(parseCsv('supplier\trate\nLahinch\t185').map(r => r.cells)).toEqual([['supplier', 'rate'], ['Lahinch', '185']]);
+  });
+  
+  it('follows RFC 4180 quoting across lines', () => {
+    const records = parseCsv('supplier,notes\n"Adare Manor, Limerick","Two ""deluxe""\nrooms"\nLahinch,');
+    
+    expect(records).toEqual([
+      { line: 1, cells: ['supplier', 'notes'] },
+      { line: 2, cells: ['Adare Manor, Limerick', 'Two "deluxe"\nrooms'] },
+      { line: 4, cells: ['Lahinch', ''] },
+    ]);
+  });
+  
+  it('strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFsupplier,rate\n')[0].cells).toEqual(['supplier', 'rate']);
+  });
+  
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsv('supplier\n"Lahinch')).toThrow(ValidationError);
+  });
+  
+  it('reads back what toCsv writes', () => {
+    const records = [['supplier', 'notes'], ['Adare Manor, Limerick', 'Says "hi"'], ['Lahinch', '=1+1']];
+    
+    expect(parseCsv(toCsv(records)).map(r => r.cells)).toEqual([records[0], records[1], ['Lahinch', "'=1+1"]]);
+  });
+});
+
+describe('rate sheet round trip', () => {
+  beforeEach(() => {
+    db.tables = {
+      golf_courses: [{ id: COURSE, name: 'Lahinch Golf Club' }],
+      accommodations: [],
+      operator_supplier_rates: [15004, 12345, 9999].map((rate_cents, i) => ({
+        id: `6f1c5a3e-0000-4000-8000-00000000000${i}`,
+        operator_id: OPERATOR,
+        supplier_id: COURSE,
+        supplier_type: 'golf_course',
+        rate_cents,
+        discount_percentage: null,
+        valid_from: `209${i}-01-01`,
+        valid_until: `209${i}-12-31`,
+        notes: null,
+      })),
+    };
+  });
+  
+  it('imports an exported sheet in another currency as unchanged', async () => {
+    const gbp = getPriceConverter('GBP');
+    
+    // Converting there and back moves this amount by a cent
+    expect(gbp.toBase(gbp.fromBase(15004))).not.toBe(15004);
+    
+    const { csv } = await exportRateSheet(OPERATOR, gbp);
+    const { result } = await diffRateSheet(OPERATOR, csv, { prices: gbp, minScore: 0.8 });
+    
+    expect(result.summary).toEqual({ rows: 3, create: 0, update: 0, unchanged: 3, invalid: 0 });
+  });
+  
+  it('converts an edited amount from the sheet currency', async () => {
+    const gbp = getPriceConverter('GBP');
+    const { csv } = await exportRateSheet(OPERATOR, gbp);
+    const { result } = await diffRateSheet(OPERATOR, csv.replace('129.03', '172.00'), { prices: gbp, minScore: 0.8 });
+    
+    expect(result.summary).toMatchObject({ update: 1, unchanged: 2 });
+    expect(result.rows.find(r => r.action === 'update')?.after?.rate_cents).toBe(20000);
+  });
+});
@@ -0,0 +1,556 @@
+/**
+ * Rate Sheets
+ * 
+ * Suppliers send contract rates as spreadsheets saved to CSV. A rate sheet
+ * has a header row naming its columns, in any order:
+ * 
+ *   supplier,supplier_type,rate,discount_percentage,valid_from,valid_until,notes
+ *   Lahinch Golf Club,golf_course,185.00,,2027-04-01,2027-10-31,Summer season
+ *   Adare Manor,accommodation,,12.5,01/04/2027,31/10/2027,
+ * 
+ * Supplier names are fuzzy-matched to golf_courses and accommodations
+ * (a `supplier_id` column skips matching). `rate` is an amount in the
+ * sheet's currency, `discount_percentage` a discount off the rack rate, and
+ * dates are YYYY-MM-DD or DD/MM/YYYY. Exported sheets add `rate_id` and
+ * `supplier_id`, so a sheet can be exported, edited and imported again.
+ * Comma, semicolon and tab separated files are accepted, as Excel saves
+ * them in different locales.
+ */
+
+import { z } from 'zod';
+import { getSupabaseClient, unwrapQuery } from './database.js';
+import { ValidationError } from './errors.js';
+import type { FieldError } from './errors.js';
+import { rankByName } from './fuzzy.js';
+import type { RankedMatch } from './fuzzy.js';
+import { today } from './pricing.js';
+import type { PriceConverter } from './currency.js';
+import { changedFields, checkRateChanges, fetchRateRows } from './rateChanges.js';
+import type { RatePlan } from './rateChanges.js';
+import { COURSE_ALIASES, ACCOMMODATION_ALIASES } from '../config/aliases.js';
+import type { RateChangeParams, RateSheetExport, RateSheetImport } from '../types/tools.js';
+
+/**
+ * Most data rows one sheet may have
+ */
+export const MAX_SHEET_ROWS = 1000;
+
+/**
+ * Columns written by exportRateSheet, in order
+ */
+const EXPORT_COLUMNS = [
+  'rate_id',
+  'supplier',
+  'supplier_type',
+  'supplier_id',
+  'rate',
+  'discount_percentage',
+  'valid_from',
+  'valid_until',
+  'notes',
+] as const;
+
+type Column = typeof EXPORT_COLUMNS[number];
+
+/**
+ * Header names accepted for each column, after normalizeHeader
+ */
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  rate_id: ['rate_id'],
+  supplier: ['supplier', 'supplier_name', 'name', 'course', 'hotel', 'property'],
+  supplier_type: ['supplier_type', 'type'],
+  supplier_id: ['supplier_id'],
+  rate: ['rate', 'net_rate', 'contract_rate', 'price'],
+  discount_percentage: ['discount_percentage', 'discount', 'discount_pct'],
+  valid_from: ['valid_from', 'from', 'start_date'],
+  valid_until: ['valid_until', 'until', 'to', 'end_date'],
+  notes: ['notes', 'comments'],
+};
+
+/**
+ * Spellings accepted in the supplier_type column
+ */
+const SUPPLIER_TYPES: Record<string, 'golf_course' | 'accommodation' | 'transport'> = {
+  golf_course: 'golf_course',
+  course: 'golf_course',
+  golf: 'golf_course',
+  accommodation: 'accommodation',
+  hotel: 'accommodation',
+  transport: 'transport',
+};
+
+/**
+ * Course or accommodation a sheet row can name
+ */
+interface CatalogueSupplier {
+  id: string;
+  name: string;
+  supplier_type: 'golf_course' | 'accommodation';
+}
+
+/**
+ * Sheet row as read, before matching
+ */
+interface SheetRow {
+  line: number;
+  cells: Partial<Record<Column, string>>;
+}
+
+type RowResult = RateSheetImport['rows'][number];
+
+/**
+ * Parse a rate sheet and diff it against the operator's current rates
+ * 
+ * Rows naming an existing rate by `rate_id`, or matching one on supplier
+ * and validity window, update it; the rest create rates. Problems are
+ * reported per row rather than thrown, except for sheets that cannot be
+ * read at all. The returned plan holds the valid changes, for
+ * applyRatePlan once every row is valid.
+ */
+export async function diffRateSheet(
+  operatorId: string,
+  csv: string,
+  options: { prices: PriceConverter; minScore: number }
+): Promise<{ result: RateSheetImport; plan: RatePlan }> {
+  const rows = readSheet(csv);
+  const [catalogue, existing] = await Promise.all([fetchCatalogue(), fetchRateRows(operatorId)]);
+  const results: RowResult[] = [];
+  const changes: RateChangeParams[] = [];
+  const changeRows: RowResult[] = [];
+  
+  for (const row of rows) {
+    const prefix = `rows.${row.line}.`;
+    const supplier = row.cells.supplier ?? row.cells.supplier_id ?? '';
+    const result: RowResult = {
+      line: row.line,
+      supplier,
+      match: null,
+      action: 'invalid',
+      before: null,
+      after: null,
+      changed_fields: [],
+      errors: [],
+    };
+    results.push(result);
+    
+    const { change, errors } = readRate(row, prefix, options.prices);
+    result.errors.push(...errors);
+    
+    const matched = matchSupplier(row, prefix, catalogue, options.minScore);
+    if ('error' in matched) {
+      result.errors.push(matched.error);
+    } else {
+      result.match = matched.match;
+      change.supplier_id = matched.match.supplier_id;
+      change.supplier_type = matched.match.supplier_type as RateChangeParams['supplier_type'];
+    }
+    
+    if (row.cells.rate_id) {
+      if (!existing.some(r => r.id === row.cells.rate_id)) {
+        result.errors.push({ field: `${prefix}rate_id`, message: `No rate ${row.cells.rate_id} for this operator`, code: 'unknown_rate' });
+      }
+      change.rate_id = row.cells.rate_id;
+    } else if (change.supplier_id) {
+      change.rate_id = existing.find(r => r.supplier_id === change.supplier_id
+        && (r.valid_from?.slice(0, 10) ?? null) === change.valid_from
+        && (r.valid_until?.slice(0, 10) ?? null) === change.valid_until)?.id;
+    }
+    
+    // Amounts are compared in the sheet's currency, so a rate exported and
+    // imported again unchanged keeps its stored amount despite conversion
+    // rounding
+    if (typeof change.rate_cents === 'number') {
+      const current = existing.find(r => r.id === change.rate_id)?.rate_cents;
+      change.rate_cents = current != null && options.prices.fromBase(current) === change.rate_cents
+        ? current
+        : options.prices.toBase(change.rate_cents);
+    }
+    
+    if (result.errors.length === 0) {
+      changes.push(change);
+      changeRows.push(result);
+    }
+  }
+  
+  const { plan, fields } = await checkRateChanges(operatorId, changes, i => `rows.${changeRows[i].line}.`);
+  
+  changeRows.forEach((result, i) => {
+    result.errors.push(...fields.filter(f => f.field.startsWith(`rows.${result.line}.`)));
+    
+    const planned = plan.changes.get(i);
+    if (result.errors.length > 0 || !planned) return;
+    
+    result.action = planned.action;
+    result.before = planned.before;
+    result.after = planned.after;
+    result.changed_fields = planned.before ? changedFields(planned.before, planned.after) : [];
+  });
+  
+  const count = (action: RowResult['action']) => results.filter(r => r.action === action).length;
+  
+  return {
+    result: {
+      applied: false,
+      summary: {
+        rows: results.length,
+        create: count('create'),
+        update: count('update'),
+        unchanged: count('unchanged'),
+        invalid: count('invalid'),
+      },
+      rows: results,
+    },
+    plan,
+  };
+}
+
+/**
+ * The operator's rates as a rate sheet, amounts in the converter's currency
+ */
+export async function exportRateSheet(operatorId: string, prices: PriceConverter): Promise<RateSheetExport> {
+  const rates = await fetchRateRows(operatorId);
+  const names = new Map((await fetchCatalogue([...new Set(rates.map(r => r.supplier_id))])).map(s => [s.id, s.name]));
+  
+  const rows = rates
+    .map(rate => ({ rate, name: names.get(rate.supplier_id) ?? '' }))
+    .sort((a, b) => a.name.localeCompare(b.name)
+      || a.rate.supplier_id.localeCompare(b.rate.supplier_id)
+      || (a.rate.valid_from ?? '').localeCompare(b.rate.valid_from ?? ''))
+    .map(({ rate, name }) => [
+      rate.id,
+      name,
+      rate.supplier_type,
+      rate.supplier_id,
+      rate.rate_cents === null ? '' : (prices.fromBase(rate.rate_cents) / 10 ** prices.minorUnits).toFixed(prices.minorUnits),
+      rate.discount_percentage === null ? '' : String(rate.discount_percentage),
+      rate.valid_from?.slice(0, 10) ?? '',
+      rate.valid_until?.slice(0, 10) ?? '',
+      rate.notes ?? '',
+    ]);
+  
+  return {
+    filename: `rates-${operatorId}-${today()}.csv`,
+    rows: rows.length,
+    csv: toCsv([[...EXPORT_COLUMNS], ...rows]),
+  };
+}
+
+/**
+ * Split CSV text into records, noting the line each starts on
+ * 
+ * Follows RFC 4180 quoting. The delimiter is whichever of comma, semicolon
+ * or tab appears most in the header line.
+ */
+export function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const source = text.replace(/^\uFEFF/, '');
+  const header = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: header.split(d).length }))
+    .reduce((a, b) => b.count > a.count ? b : a).d;
+  
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      cells.push(cell);
+      records.push({ line: start, cells });
+      cells = [];
+      cell = '';
+      start = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  
+  if (quoted) {
+    throw new ValidationError('Rate sheet has an unterminated quoted cell', [
+      { field: 'csv', message: `Quote opened on line ${start} is never closed`, code: 'malformed_csv' },
+    ]);
+  }
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: start, cells });
+  }
+  
+  return records.filter(r => r.cells.some(c => c.trim() !== ''));
+}
+
+/**
+ * Format records as CSV
+ * 
+ * Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheets show it rather than evaluate it; readSheet removes it again.
+ */
+export function toCsv(records: string[][]): string {
+  return records
+    .map(cells => cells
+      .map(value => /^[=+\-@]/.test(value) ? `'${value}` : value)
+      .map(value => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+      .join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse a sheet and map its header to known columns
+ */
+function readSheet(csv: string): SheetRow[] {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    throw new ValidationError('Rate sheet is empty', [
+      { field: 'csv', message: 'Expected a header row and at least one rate', code: 'empty_sheet' },
+    ]);
+  }
+  
+  const columns = header.cells.map(name => {
+    const normalized = normalizeHeader(name);
+    return (Object.keys(COLUMN_ALIASES) as Column[]).find(c => COLUMN_ALIASES[c].includes(normalized));
+  });
+  
+  if (!columns.includes('supplier') && !columns.includes('supplier_id')) {
+    throw new ValidationError('Rate sheet has no supplier column', [
+      { field: 'csv', message: `Header must include supplier or supplier_id; found ${header.cells.join(', ')}`, code: 'missing_column' },
+    ]);
+  }
+  if (records.length === 0) {
+    throw new ValidationError('Rate sheet has no rates', [
+      { field: 'csv', message: 'Expected at least one row after the header', code: 'empty_sheet' },
+    ]);
+  }
+  if (records.length > MAX_SHEET_ROWS) {
+    throw new ValidationError(`Rate sheet has more than ${MAX_SHEET_ROWS} rows`, [
+      { field: 'csv', message: `Split the sheet into files of up to ${MAX_SHEET_ROWS} rows`, code: 'too_many_rows' },
+    ]);
+  }
+  
+  return records.map(({ line, cells }) => ({
+    line,
+    cells: Object.fromEntries(columns.flatMap((column, i) => {
+      const value = (cells[i] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+      return column && value !== '' ? [[column, value]] : [];
+    })),
+  }));
+}
+
+/**
+ * Lowercase a header and join its words with underscores
+ */
+function normalizeHeader(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Read the rate, discount, dates and notes of a row, with `rate_cents` in
+ * the sheet's currency
+ */
+function readRate(
+  row: SheetRow,
+  prefix: string,
+  prices: PriceConverter
+): { change: RateChangeParams; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const { rate, discount_percentage: discount, valid_from: from, valid_until: until, notes } = row.cells;
+  
+  const amount = rate === undefined ? null : parseAmount(rate);
+  if (Number.isNaN(amount) || (amount !== null && amount <= 0)) {
+    errors.push({ field: `${prefix}rate`, message: `"${rate}" is not a positive amount; give a decimal part to make the separators clear, e.g. 1250.00 or 1.250,00`, code: 'invalid_rate' });
+  }
+  
+  const percentage = discount === undefined ? null : Number(discount.replace('%', '').replace(',', '.').trim());
+  if (percentage !== null && !(percentage >= 0 && percentage <= 100)) {
+    errors.push({ field: `${prefix}discount_percentage`, message: `"${discount}" is not a percentage from 0 to 100`, code: 'invalid_discount' });
+  }
+  
+  const date = (value: string | undefined, field: string) => {
+    if (value === undefined) return null;
+    const parsed = parseDate(value);
+    if (!parsed) {
+      errors.push({ field: `${prefix}${field}`, message: `"${value}" is not a YYYY-MM-DD or DD/MM/YYYY date`, code: 'invalid_date' });
+    }
+    return parsed;
+  };
+  
+  return {
+    change: {
+      rate_cents: amount === null || Number.isNaN(amount) ? null : Math.round(amount * 10 ** prices.minorUnits),
+      discount_percentage: percentage,
+      valid_from: date(from, 'valid_from'),
+      valid_until: date(until, 'valid_until'),
+      notes: notes ?? null,
+    },
+    errors,
+  };
+}
+
+/**
+ * Amount in major units, tolerating currency symbols, thousands separators
+ * and a decimal comma ("€1,250.00", "1.250,00", "185,50")
+ * 
+ * When both `.` and `,` appear the rightmost is the decimal mark. A single
+ * separator followed by exactly three digits ("1.250", "1,250") could be
+ * either, so it is NaN like any other unreadable amount.
+ */
+export function parseAmount(value: string): number {
+  const stripped = value.replace(/[^\d.,-]/g, '');
+  const decimalAt = Math.max(stripped.lastIndexOf('.'), stripped.lastIndexOf(','));
+  if (decimalAt === -1) {
+    return stripped === '' ? NaN : Number(stripped);
+  }
+  
+  const mark = stripped[decimalAt];
+  const grouping = mark === '.' ? ',' : '.';
+  const whole = stripped.slice(0, decimalAt);
+  const fraction = stripped.slice(decimalAt + 1);
+  
+  // Repeated or mixed separators leave no doubt about the decimal mark, as
+  // long as the thousands are grouped properly
+  if (whole.includes(mark)) {
+    return isGrouped(stripped, mark) ? Number(stripped.split(mark).join('')) : NaN;
+  }
+  if (whole.includes(grouping)) {
+    return isGrouped(whole, grouping) && /^\d*$/.test(fraction) ? Number(`${whole.split(grouping).join('')}.${fraction}`) : NaN;
+  }
+  if (fraction.length === 3) {
+    return NaN;
+  }
+  
+  return /^-?\d*$/.test(whole) && /^\d*$/.test(fraction) ? Number(`${whole}.${fraction}`) : NaN;
+}
+
+/**
+ * Whether digits are split into thousands by a separator ("1,250,000")
+ */
+function isGrouped(value: string, separator: string): boolean {
+  const [first, ...groups] = value.replace(/^-/, '').split(separator);
+  return /^\d{1,3}$/.test(first) && groups.every(group => /^\d{3}$/.test(group));
+}
+
+/**
+ * YYYY-MM-DD from a YYYY-MM-DD or DD/MM/YYYY date, or null if invalid
+ */
+function parseDate(value: string): string | null {
+  const european = value.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  const iso = european
+    ? `${european[3]}-${european[2].padStart(2, '0')}-${european[1].padStart(2, '0')}`
+    : value;
+  
+  return z.string().date().safeParse(iso).success ? iso : null;
+}
+
+/**
+ * Resolve the supplier a row names, by supplier_id or fuzzy name match
+ */
+function matchSupplier(
+  row: SheetRow,
+  prefix: string,
+  catalogue: CatalogueSupplier[],
+  minScore: number
+): { match: NonNullable<RowResult['match']> } | { error: FieldError } {
+  const { supplier, supplier_id: supplierId, supplier_type: typeName } = row.cells;
+  const type = typeName === undefined ? undefined : SUPPLIER_TYPES[normalizeHeader(typeName)];
+  
+  if (typeName !== undefined && !type) {
+    return { error: { field: `${prefix}supplier_type`, message: `"${typeName}" is not golf_course, accommodation or transport`, code: 'invalid_supplier_type' } };
+  }
+  
+  // Transport suppliers are not catalogued, so they can only be given by id
+  if (type === 'transport') {
+    if (!supplierId || !z.string().uuid().safeParse(supplierId).success) {
+      return { error: { field: `${prefix}supplier_id`, message: 'Transport suppliers need a supplier_id', code: 'required' } };
+    }
+    return { match: { supplier_id: supplierId, supplier_type: type, name: supplier ?? supplierId, match_score: 1 } };
+  }
+  
+  if (supplierId) {
+    const known = catalogue.find(s => s.id === supplierId && (!type || s.supplier_type === type));
+    if (!known) {
+      return { error: { field: `${prefix}supplier_id`, message: `No ${type?.replace('_', ' ') ?? 'course or accommodation'} ${supplierId}`, code: 'unknown_supplier' } };
+    }
+    return { match: { supplier_id: known.id, supplier_type: known.supplier_type, name: known.name, match_score: 1 } };
+  }
+  
+  if (!supplier) {
+    return { error: { field: `${prefix}supplier`, message: 'Name the supplier or give its supplier_id', code: 'required' } };
+  }
+  
+  const ranked: Array<RankedMatch<CatalogueSupplier>> = [
+    ...(type !== 'accommodation'
+      ? rankByName(catalogue.filter(s => s.supplier_type === 'golf_course'), supplier, { aliases: COURSE_ALIASES, minScore: 0 })
+      : []),
+    ...(type !== 'golf_course'
+      ? rankByName(catalogue.filter(s => s.supplier_type === 'accommodation'), supplier, { aliases: ACCOMMODATION_ALIASES, minScore: 0 })
+      : []),
+  ].sort((a, b) => b.match_score - a.match_score);
+  const [best, runnerUp] = ranked;
+  
+  if (!best || best.match_score < minScore) {
+    return {
+      error: {
+        field: `${prefix}supplier`,
+        message: best
+          ? `No supplier matches "${supplier}" closely enough; nearest is ${best.name} (${best.match_score})`
+          : `No supplier matches "${supplier}"`,
+        code: 'unmatched_supplier',
+      },
+    };
+  }
+  
+  // A resort's course and hotel often share a name, so near-ties need the
+  // sheet to say which is meant
+  if (runnerUp && runnerUp.match_score >= minScore && best.match_score - runnerUp.match_score < 0.05) {
+    return {
+      error: {
+        field: `${prefix}supplier`,
+        message: `"${supplier}" matches both ${best.name} (${best.supplier_type}) and ${runnerUp.name} (${runnerUp.supplier_type}); add supplier_type or supplier_id`,
+        code: 'ambiguous_supplier',
+      },
+    };
+  }
+  
+  return { match: { supplier_id: best.id, supplier_type: best.supplier_type, name: best.name, match_score: best.match_score } };
+}
+
+/**
+ * Courses and accommodations, optionally only those with the given ids
+ */
+async function fetchCatalogue(ids?: string[]): Promise<CatalogueSupplier[]> {
+  if (ids && ids.length === 0) return [];
+  
+  const load = async (table: string, supplierType: CatalogueSupplier['supplier_type']) => {
+    let query = getSupabaseClient().from(table).select('id, name');
+    if (ids) {
+      query = query.in('id', ids);
+    }
+    const rows = unwrapQuery<Array<{ id: string; name: string }>>(await query) ?? [];
+    return rows.map(row => ({ ...row, supplier_type: supplierType }));
+  };
+  
+  const [courses, accommodations] = await Promise.all([
+    load('golf_courses', 'golf_course'),
+    load('accommodations', 'accommodation'),
+  ]);
+  
+  return [...courses, ...accommodations];
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { scoreCourse } from './recommendations.js';
+import type { RecommendationCriteria, ScorableCourse } from './recommendations.js';
+import { getPriceConverter } from './currency.js';
+import type { EffectivePrice } from './pricing.js';
+
+const course = (overrides: Partial<ScorableCourse> = {}): ScorableCourse => ({
+  id: 'course-1',
+  rating: 4.5,
+  difficulty_level: 'moderate',
+  course_type: 'links',
+  green_fee_standard_cents: 25000,
+  ...overrides,
+});
+
+const criteria = (overrides: Partial<RecommendationCriteria> = {}): RecommendationCriteria => ({
+  budgetTier: 'standard',
+  priceRange: { min_cents: 15000, max_cents: 35000 },
+  prices: getPriceConverter(),
+  ...overrides,
+});
+
+const negotiated: EffectivePrice = {
+  price_cents: 20000,
+  rack_price_cents: 25000,
+  savings_cents: 5000,
+  savings_percentage: 20,
+  pricing_rule: 'negotiated_rate',
+  rate_id: 'rate-1',
+};
+
+describe('scoreCourse', () => {
+  it('rescales the weights of the components that apply', () => {
+    const result = scoreCourse(course(), criteria());
+    
+    expect(result.score_breakdown).toEqual({
+      rating: { score: 0.9, weight: 0.7 },
+      price_fit: { score: 1, weight: 0.3 },
+    });
+    expect(result.score).toBe(0.93);
+  });
+  
+  it('blends every component at its configured weight when all apply', () => {
+    const result = scoreCourse(course(), criteria({
+      handicap: { min: 14, max: 20 },
+      preferredTypes: ['parkland'],
+      effectivePrices: new Map([['course-1', negotiated]]),
+    }));
+    
+    expect(result.score_breakdown).toEqual({
+      rating: { score: 0.9, weight: 0.35 },
+      difficulty: { score: 1, weight: 0.2 },
+      course_type: { score: 0, weight: 0.15 },
+      price_fit: { score: 1, weight: 0.15 },
+      negotiated_rate: { score: 1, weight: 0.15 },
+    });
+    expect(result.score).toBe(0.815);
+  });
+  
+  it('scores difficulty down by how far it is from the handicap range', () => {
+    const result = scoreCourse(course({ difficulty_level: 'championship' }), criteria({ handicap: { min: 18, max: 24 } }));
+    
+    expect(result.score_breakdown.difficulty?.score).toBe(0.3);
+    expect(result.reason).toContain('harder than ideal for handicaps 18-24');
+  });
+  
+  it('scores price fit by distance from the middle of a bounded tier', () => {
+    const fit = (cents: number) => scoreCourse(course({ green_fee_standard_cents: cents }), criteria()).score_breakdown.price_fit?.score;
+    
+    expect(fit(25000)).toBe(1);
+    expect(fit(30000)).toBe(0.75);
+    expect(fit(15000)).toBe(0.5);
+    expect(fit(60000)).toBe(0.5);
+  });
+  
+  it('gives the green fee as a reason only when it fits the tier well', () => {
+    const reason = (cents: number) => scoreCourse(course({ rating: 3, green_fee_standard_cents: cents }), criteria()).reason;
+    
+    expect(reason(27500)).toBe('€275.00 green fee fits the standard budget');
+    expect(reason(34000)).toBe('Matches the region and budget');
+    expect(reason(60000)).toBe('Matches the region and budget');
+  });
+  
+  it('leads with the strongest reasons', () => {
+    const result = scoreCourse(course(), criteria({
+      handicap: { min: 14, max: 20 },
+      preferredTypes: ['links'],
+      effectivePrices: new Map([['course-1', negotiated]]),
+    }));
+    
+    expect(result.reason).toBe('Rated 4.5/5; moderate difficulty suits handicaps 14-20; links as preferred');
+  });
+});
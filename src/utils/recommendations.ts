@@ -0,0 +1,199 @@
+/**
+ * Course Recommendation Scoring
+ * 
+ * Scores courses for get_recommended_courses as a weighted blend of rating,
+ * difficulty against the golfer's handicap range, course type preference,
+ * price fit within the budget tier and the operator's negotiated rates.
+ * Components that do not apply to a request (no handicap given, rates not
+ * visible to the caller) are left out and the remaining weights rescaled.
+ */
+
+import type { BudgetTier, PriceRange } from '../config/budgetTiers.js';
+import type { EffectivePrice } from './pricing.js';
+import type { PriceConverter } from './currency.js';
+import { difficultyRank } from './sorting.js';
+
+export type ScoreComponent = 'rating' | 'difficulty' | 'course_type' | 'price_fit' | 'negotiated_rate';
+
+/**
+ * Relative weight of each score component
+ */
+export const SCORE_WEIGHTS: Record<ScoreComponent, number> = {
+  rating: 0.35,
+  difficulty: 0.2,
+  course_type: 0.15,
+  price_fit: 0.15,
+  negotiated_rate: 0.15,
+};
+
+/**
+ * Lowest price fit for which the green fee is given as a reason; below it the
+ * fee is too far from the middle of the tier to be said to fit
+ */
+const PRICE_FIT_REASON_THRESHOLD = 0.75;
+
+/**
+ * What the golfer asked for
+ */
+export interface RecommendationCriteria {
+  budgetTier: BudgetTier;
+  priceRange: PriceRange;
+  handicap?: { min: number; max: number };
+  preferredTypes?: string[];
+  /** Effective price per course id; undefined when rates are not considered */
+  effectivePrices?: Map<string, EffectivePrice>;
+  /** Currency prices are quoted in within the reason */
+  prices: PriceConverter;
+}
+
+/**
+ * Course fields used for scoring
+ */
+export interface ScorableCourse {
+  id: string;
+  rating: number | null;
+  difficulty_level: string | null;
+  course_type: string | null;
+  green_fee_standard_cents: number | null;
+}
+
+/**
+ * Score of one component and the weight it carried
+ */
+export interface ComponentScore {
+  score: number;
+  weight: number;
+}
+
+/**
+ * Overall score (0-1) with its breakdown and a short explanation
+ */
+export interface CourseScore {
+  score: number;
+  score_breakdown: Partial<Record<ScoreComponent, ComponentScore>>;
+  reason: string;
+}
+
+/**
+ * Difficulty rank (see difficultyRank) suited to a handicap
+ */
+function difficultyForHandicap(handicap: number): number {
+  if (handicap <= 5) return 4;
+  if (handicap <= 12) return 3;
+  if (handicap <= 20) return 2;
+  return 1;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * How well a green fee sits within the tier: cheaper is better in an
+ * open-ended lower tier, the middle of the band in a bounded one, and any
+ * price qualifies in an open-ended upper tier
+ */
+function priceFit(price: number, range: PriceRange): number {
+  const { min_cents: min, max_cents: max } = range;
+  
+  if (max === undefined) return 1;
+  if (min === undefined) return max === 0 ? 1 : 1 - 0.5 * Math.min(price / max, 1);
+  
+  const halfSpan = (max - min) / 2;
+  if (halfSpan === 0) return 1;
+  
+  return 1 - 0.5 * Math.min(Math.abs(price - (min + halfSpan)) / halfSpan, 1);
+}
+
+/**
+ * Score a course against recommendation criteria
+ */
+export function scoreCourse(course: ScorableCourse, criteria: RecommendationCriteria): CourseScore {
+  const components: Partial<Record<ScoreComponent, number>> = {};
+  const reasons: Array<{ text: string; weight: number }> = [];
+  const caveats: string[] = [];
+  
+  components.rating = course.rating === null ? 0.5 : Math.min(Math.max(course.rating / 5, 0), 1);
+  if (course.rating !== null && course.rating >= 4) {
+    reasons.push({ text: `rated ${course.rating}/5`, weight: SCORE_WEIGHTS.rating * components.rating });
+  }
+  
+  if (criteria.handicap) {
+    const { min, max } = criteria.handicap;
+    const rank = difficultyRank(course.difficulty_level);
+    const hardest = difficultyForHandicap(min);
+    const easiest = difficultyForHandicap(max);
+    
+    if (rank === null) {
+      components.difficulty = 0.5;
+    } else {
+      const gap = rank > hardest ? rank - hardest : rank < easiest ? easiest - rank : 0;
+      components.difficulty = Math.max(1 - 0.35 * gap, 0);
+      
+      if (gap === 0) {
+        reasons.push({
+          text: `${course.difficulty_level} difficulty suits handicaps ${min}-${max}`,
+          weight: SCORE_WEIGHTS.difficulty,
+        });
+      } else {
+        caveats.push(`${rank > hardest ? 'harder' : 'easier'} than ideal for handicaps ${min}-${max}`);
+      }
+    }
+  }
+  
+  if (criteria.preferredTypes && criteria.preferredTypes.length > 0) {
+    const preferred = course.course_type !== null && criteria.preferredTypes.includes(course.course_type);
+    components.course_type = preferred ? 1 : 0;
+    
+    if (preferred) {
+      reasons.push({ text: `${course.course_type} as preferred`, weight: SCORE_WEIGHTS.course_type });
+    }
+  }
+  
+  const price = course.green_fee_standard_cents;
+  components.price_fit = price === null ? 0.5 : priceFit(price, criteria.priceRange);
+  if (price !== null && components.price_fit >= PRICE_FIT_REASON_THRESHOLD) {
+    reasons.push({
+      text: `${criteria.prices.formatBase(price)} green fee fits the ${criteria.budgetTier} budget`,
+      weight: SCORE_WEIGHTS.price_fit * components.price_fit,
+    });
+  }
+  
+  if (criteria.effectivePrices) {
+    const effective = criteria.effectivePrices.get(course.id);
+    const negotiated = effective !== undefined && effective.pricing_rule !== 'rack_rate' && effective.pricing_rule !== 'unpriced';
+    components.negotiated_rate = negotiated ? 1 : 0;
+    
+    if (negotiated) {
+      reasons.push({
+        text: effective.savings_percentage > 0
+          ? `negotiated rate saves ${effective.savings_percentage}%`
+          : 'negotiated rate available',
+        weight: SCORE_WEIGHTS.negotiated_rate,
+      });
+    }
+  }
+  
+  const entries = Object.entries(components) as Array<[ScoreComponent, number]>;
+  const totalWeight = entries.reduce((sum, [name]) => sum + SCORE_WEIGHTS[name], 0);
+  const score_breakdown: CourseScore['score_breakdown'] = {};
+  let score = 0;
+  
+  for (const [name, value] of entries) {
+    const weight = SCORE_WEIGHTS[name] / totalWeight;
+    score_breakdown[name] = { score: round(value), weight: round(weight) };
+    score += value * weight;
+  }
+  
+  const highlights = reasons
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 3)
+    .map(r => r.text);
+  const reason = [...highlights, ...caveats].join('; ') || 'Matches the region and budget';
+  
+  return {
+    score: round(score),
+    score_breakdown,
+    reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Room Inventory
+ * 
+ * Room availability and nightly rack rates live in each property's own
+ * reservation system and are queried through a RoomInventoryProvider. Until
+ * real systems are connected, the bundled StubRoomInventoryProvider serves
+ * plausible inventory offline: standard, deluxe and suite rooms priced off
+ * the accommodation's standard rate with seasonal and weekend uplifts, and
+ * deterministic pseudo-random occupancy. The JSON file named by
+ * ROOM_INVENTORY_FILE can change the pricing and room types:
+ * 
+ *   {
+ *     "default": { "weekend_uplift_percentage": 20 },
+ *     "accommodations": {
+ *       "<accommodation uuid>": {
+ *         "room_types": [{ "room_type": "lodge", "name": "Lodge Room", "max_occupancy": 2, "rooms": 8, "rate_multiplier": 1 }],
+ *         "sold_out_dates": ["2026-07-12"]
+ *       }
+ *     }
+ *   }
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { logger } from './logger.js';
+import { addDays, daysBetween } from './pricing.js';
+
+/**
+ * Room inventory request
+ */
+export interface RoomInventoryQuery {
+  accommodationId: string;
+  /** YYYY-MM-DD */
+  checkIn: string;
+  /** YYYY-MM-DD, after checkIn */
+  checkOut: string;
+  /** Standard nightly rate on record, for providers without their own rates */
+  standardRateCents: number | null;
+}
+
+/**
+ * One night of a room type
+ */
+export interface RoomNight {
+  /** YYYY-MM-DD */
+  date: string;
+  rooms_available: number;
+  /** Rack rate for the night, or null when the property has none on record */
+  rack_rate_cents: number | null;
+}
+
+/**
+ * A room type with its availability for each night of a stay
+ */
+export interface RoomTypeInventory {
+  room_type: string;
+  name: string;
+  max_occupancy: number;
+  /** Whether this is the property's standard room, the one its standard rate and flat negotiated rates are for */
+  standard?: boolean;
+  nights: RoomNight[];
+}
+
+/**
+ * Room booking request
+ */
+export interface RoomBooking {
+  accommodationId: string;
+  roomType: string;
+  checkIn: string;
+  checkOut: string;
+  rooms: number;
+}
+
+/**
+ * Source of room inventory, one per reservation system integration
+ */
+export interface RoomInventoryProvider {
+  /** Name reported with availability results */
+  readonly name: string;
+  /** Room types with one entry per night from checkIn up to checkOut */
+  getRoomInventory(query: RoomInventoryQuery): Promise<RoomTypeInventory[]>;
+  /** Book rooms for a stay, returning the property's booking reference */
+  book(booking: RoomBooking): Promise<{ reference: string }>;
+}
+
+const RoomTypeSchema = z.object({
+  room_type: z.string().min(1),
+  name: z.string().min(1),
+  max_occupancy: z.number().int().min(1),
+  rooms: z.number().int().min(0),
+  rate_multiplier: z.number().positive(),
+});
+
+const SeasonSchema = z.object({
+  months: z.array(z.number().int().min(1).max(12)).min(1),
+  uplift_percentage: z.number(),
+});
+
+const PricingSchema = z.object({
+  seasons: z.array(SeasonSchema).optional(),
+  weekend_uplift_percentage: z.number().optional(),
+});
+
+const RoomInventoryFileSchema = z.object({
+  default: PricingSchema.default({}),
+  accommodations: z.record(z.string().uuid(), PricingSchema.extend({
+    room_types: z.array(RoomTypeSchema).min(1).optional(),
+    sold_out_dates: z.array(z.string().date()).default([]),
+  })).default({}),
+});
+
+type RoomInventoryFile = z.infer<typeof RoomInventoryFileSchema>;
+
+type RoomType = z.infer<typeof RoomTypeSchema>;
+
+const DEFAULT_ROOM_TYPES: RoomType[] = [
+  { room_type: 'standard', name: 'Standard Room', max_occupancy: 2, rooms: 12, rate_multiplier: 1 },
+  { room_type: 'deluxe', name: 'Deluxe Room', max_occupancy: 3, rooms: 6, rate_multiplier: 1.35 },
+  { room_type: 'suite', name: 'Suite', max_occupancy: 4, rooms: 2, rate_multiplier: 2 },
+];
+
+const DEFAULT_PRICING = {
+  // Irish golf season: May-September peak, April and October shoulder
+  seasons: [
+    { months: [5, 6, 7, 8, 9], uplift_percentage: 25 },
+    { months: [4, 10], uplift_percentage: 10 },
+  ],
+  // Friday and Saturday nights
+  weekend_uplift_percentage: 15,
+};
+
+/**
+ * Offline room inventory for development and testing
+ * 
+ * Bookings are kept in memory for the life of the process.
+ */
+export class StubRoomInventoryProvider implements RoomInventoryProvider {
+  readonly name = 'stub';
+  private readonly file: RoomInventoryFile;
+  private readonly bookings = new Map<string, number>();
+  
+  constructor(file?: string) {
+    this.file = file
+      ? RoomInventoryFileSchema.parse(JSON.parse(readFileSync(file, 'utf8')))
+      : { default: {}, accommodations: {} };
+    
+    if (file) {
+      logger.info('Stub room inventory loaded', { file, accommodations: Object.keys(this.file.accommodations).length });
+    }
+  }
+  
+  async getRoomInventory(query: RoomInventoryQuery): Promise<RoomTypeInventory[]> {
+    const property = this.file.accommodations[query.accommodationId];
+    const pricing = { ...DEFAULT_PRICING, ...this.file.default, ...property };
+    const dates = Array.from({ length: daysBetween(query.checkIn, query.checkOut) }, (_, i) => addDays(query.checkIn, i));
+    
+    return (property?.room_types ?? DEFAULT_ROOM_TYPES).map(type => ({
+      room_type: type.room_type,
+      name: type.name,
+      max_occupancy: type.max_occupancy,
+      // Room types priced at the standard rate are standard rooms
+      standard: type.rate_multiplier === 1,
+      nights: dates.map(date => {
+        const booked = property?.sold_out_dates.includes(date)
+          ? type.rooms
+          : simulatedBookings(query.accommodationId, type, date)
+            + (this.bookings.get(`${query.accommodationId}:${type.room_type}:${date}`) ?? 0);
+        
+        return {
+          date,
+          rooms_available: Math.max(type.rooms - booked, 0),
+          rack_rate_cents: query.standardRateCents === null
+            ? null
+            : Math.round(query.standardRateCents * type.rate_multiplier * (1 + upliftPercentage(date, pricing) / 100)),
+        };
+      }),
+    }));
+  }
+  
+  async book({ accommodationId, roomType, checkIn, checkOut, rooms }: RoomBooking): Promise<{ reference: string }> {
+    for (let date = checkIn; date < checkOut; date = addDays(date, 1)) {
+      const key = `${accommodationId}:${roomType}:${date}`;
+      this.bookings.set(key, (this.bookings.get(key) ?? 0) + rooms);
+    }
+    return { reference: `STUB-${randomUUID().slice(0, 8).toUpperCase()}` };
+  }
+}
+
+/**
+ * Combined seasonal and weekend uplift for a night
+ */
+function upliftPercentage(
+  date: string,
+  pricing: { seasons: Array<{ months: number[]; uplift_percentage: number }>; weekend_uplift_percentage: number }
+): number {
+  const day = new Date(`${date}T00:00:00Z`);
+  const season = pricing.seasons.find(s => s.months.includes(day.getUTCMonth() + 1));
+  const weekend = day.getUTCDay() === 5 || day.getUTCDay() === 6;
+  
+  return (season?.uplift_percentage ?? 0) + (weekend ? pricing.weekend_uplift_percentage : 0);
+}
+
+/**
+ * Stable pseudo-random rooms taken for a room type on a night, busier at
+ * weekends
+ */
+function simulatedBookings(accommodationId: string, type: RoomType, date: string): number {
+  const byte = createHash('sha256').update(`${accommodationId}:${type.room_type}:${date}`).digest()[0];
+  const weekend = [5, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+  const occupancy = 0.7 * (byte / 255) + (weekend ? 0.2 : 0);
+  
+  return Math.round(type.rooms * occupancy);
+}
+
+let provider: RoomInventoryProvider | null = null;
+
+/**
+ * Provider in use (the stub unless another has been set)
+ */
+export function getRoomInventoryProvider(): RoomInventoryProvider {
+  provider ??= new StubRoomInventoryProvider(env.ROOM_INVENTORY_FILE);
+  return provider;
+}
+
+/**
+ * Swap in a provider, e.g. a property reservation system integration
+ */
+export function setRoomInventoryProvider(next: RoomInventoryProvider): void {
+  provider = next;
+}
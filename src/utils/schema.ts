@@ -0,0 +1,34 @@
+/**
+ * JSON Schema Utility
+ * 
+ * Converts the Zod schemas used for validation into the JSON Schema
+ * advertised to MCP clients and REST consumers
+ */
+
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+/**
+ * JSON Schema for a tool's object-shaped arguments
+ */
+export interface ObjectJsonSchema {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Convert a Zod object schema to an inlined JSON Schema (draft 7)
+ * 
+ * Fields with defaults or `.optional()` are left out of `required`.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): ObjectJsonSchema {
+  const { $schema: _draft, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+    effectStrategy: 'input',
+  }) as Record<string, unknown>;
+  
+  return { type: 'object', ...jsonSchema } as ObjectJsonSchema;
+}
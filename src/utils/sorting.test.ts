@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { applySort, compareBySort, resolveSort } from './sorting.js';
+
+const names = (rows: { name: string }[]) => rows.map(r => r.name);
+
+describe('resolveSort', () => {
+  it('pushes stored columns down to the database', () => {
+    expect(resolveSort('price_asc', { priceColumn: 'green_fee_standard_cents' }).inMemory).toBe(false);
+  });
+  
+  it('sorts names in process on every path', () => {
+    expect(resolveSort('name', { priceColumn: 'green_fee_standard_cents' }).inMemory).toBe(true);
+    expect(resolveSort('rating', { priceColumn: 'green_fee_standard_cents' }).inMemory).toBe(true);
+  });
+});
+
+describe('compareBySort', () => {
+  it('orders names by one collation whatever the runtime locale', () => {
+    const sort = resolveSort('name', { priceColumn: 'green_fee_standard_cents' });
+    const rows = [
+      { id: '4', name: 'Course 10' },
+      { id: '1', name: 'ballybunion' },
+      { id: '3', name: 'Course 2' },
+      { id: '2', name: 'Adare Manor' },
+    ];
+    
+    expect(names(rows.sort(compareBySort(sort)))).toEqual(['Adare Manor', 'ballybunion', 'Course 2', 'Course 10']);
+  });
+  
+  it('sorts missing values last and breaks ties by id', () => {
+    const sort = resolveSort('price_desc', { priceColumn: 'standard_rate_cents' });
+    const rows = [
+      { id: 'c', name: 'C', standard_rate_cents: null, rating: 5 },
+      { id: 'b', name: 'B', standard_rate_cents: 20000, rating: 4 },
+      { id: 'a', name: 'A', standard_rate_cents: 20000, rating: 4 },
+    ];
+    
+    expect(names(rows.sort(compareBySort(sort)))).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('applySort', () => {
+  it('orders the query by each key with missing values last', () => {
+    const calls: unknown[][] = [];
+    const query = {
+      order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) {
+        calls.push([column, options]);
+        return query;
+      },
+    };
+    
+    applySort(query, resolveSort('price_asc', { priceColumn: 'standard_rate_cents' }));
+    
+    expect(calls).toEqual([
+      ['standard_rate_cents', { ascending: true, nullsFirst: false }],
+      ['rating', { ascending: false, nullsFirst: false }],
+      ['id', { ascending: true, nullsFirst: false }],
+    ]);
+  });
+});
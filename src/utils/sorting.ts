@@ -0,0 +1,190 @@
+/**
+ * Sorting Utility
+ * 
+ * Maps the `sort_by` option of the search tools to an ordered list of sort
+ * keys. Every order ends with `id`, so it is total and pages stay stable.
+ * Keys on stored columns are pushed down to the database; distance,
+ * difficulty and recommendation score are derived in process, so those
+ * orders sort every match in memory before the page is cut. Names are
+ * compared in process too, so they follow one collation on every path
+ * rather than the database's on one and the runtime's on the other.
+ */
+
+import { ValidationError } from './errors.js';
+
+/**
+ * Sort options accepted by the search tools
+ */
+export type SortBy = 'rating' | 'price_asc' | 'price_desc' | 'difficulty' | 'name' | 'distance' | 'score';
+
+/**
+ * A single sort key; `rank` derives a comparable value from the column
+ */
+export interface SortKey {
+  column: string;
+  ascending: boolean;
+  rank?: (value: unknown) => number | null;
+}
+
+/**
+ * The sort applied to a search, as resolved from `sort_by`
+ */
+export interface ResolvedSort {
+  sortBy: SortBy;
+  keys: SortKey[];
+  /** Whether the order can only be applied in process */
+  inMemory: boolean;
+}
+
+/**
+ * Sort columns computed in process rather than stored, or compared there
+ */
+const IN_PROCESS_COLUMNS = new Set(['distance_km', 'score', 'name']);
+
+/**
+ * Collation for names, fixed rather than the runtime's default locale
+ */
+const nameCollator = new Intl.Collator('en', { numeric: true });
+
+/**
+ * Difficulty levels from easiest to hardest
+ */
+const DIFFICULTY_RANKS: Record<string, number> = {
+  beginner: 1,
+  easy: 1,
+  intermediate: 2,
+  moderate: 2,
+  medium: 2,
+  advanced: 3,
+  challenging: 3,
+  difficult: 3,
+  hard: 3,
+  championship: 4,
+  expert: 4,
+  'very hard': 4,
+};
+
+/**
+ * Comparable rank of a difficulty level (null when unrecognised)
+ */
+export function difficultyRank(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  
+  const normalized = value.trim().toLowerCase().replace(/[_-]+/g, ' ');
+  const numeric = Number(normalized);
+  if (normalized !== '' && Number.isFinite(numeric)) return numeric;
+  
+  return DIFFICULTY_RANKS[normalized] ?? null;
+}
+
+/**
+ * Resolve `sort_by` into sort keys
+ * 
+ * Defaults to distance when searching around a location and to rating
+ * otherwise. Sorting by distance without a location is rejected.
+ */
+export function resolveSort(
+  sortBy: SortBy | undefined,
+  options: { priceColumn: string; hasOrigin?: boolean }
+): ResolvedSort {
+  const resolved = sortBy ?? (options.hasOrigin ? 'distance' : 'rating');
+  const asc = (column: string): SortKey => ({ column, ascending: true });
+  const desc = (column: string): SortKey => ({ column, ascending: false });
+  
+  let keys: SortKey[];
+  switch (resolved) {
+    case 'rating':
+      keys = [desc('rating'), asc('name')];
+      break;
+    case 'price_asc':
+      keys = [asc(options.priceColumn), desc('rating')];
+      break;
+    case 'price_desc':
+      keys = [desc(options.priceColumn), desc('rating')];
+      break;
+    case 'difficulty':
+      keys = [{ column: 'difficulty_level', ascending: true, rank: difficultyRank }, desc('rating')];
+      break;
+    case 'name':
+      keys = [asc('name')];
+      break;
+    case 'score':
+      keys = [desc('score'), desc('rating')];
+      break;
+    case 'distance':
+      if (!options.hasOrigin) {
+        throw new ValidationError('sort_by "distance" requires a location to search around', [
+          { field: 'sort_by', message: 'Requires a location to search around', code: 'invalid_sort' },
+        ]);
+      }
+      keys = [asc('distance_km'), desc('rating')];
+      break;
+  }
+  
+  return {
+    sortBy: resolved,
+    keys: [...keys, asc('id')],
+    inMemory: keys.some(k => k.rank || IN_PROCESS_COLUMNS.has(k.column)),
+  };
+}
+
+/**
+ * Query builder method used to push a sort down to the database
+ */
+interface OrderableQuery<Q> {
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): Q;
+}
+
+/**
+ * Apply sort keys to a query; missing values sort last in either direction
+ */
+export function applySort<Q extends OrderableQuery<Q>>(query: Q, sort: ResolvedSort): Q {
+  for (const key of sort.keys) {
+    query = query.order(key.column, { ascending: key.ascending, nullsFirst: false });
+  }
+  
+  return query;
+}
+
+/**
+ * Comparator for rows sorted in process; orders stored columns as `applySort` does
+ */
+export function compareBySort(sort: ResolvedSort): (a: object, b: object) => number {
+  return (a, b) => {
+    for (const key of sort.keys) {
+      const x = sortValue(a, key);
+      const y = sortValue(b, key);
+      
+      if (x === y) continue;
+      if (x === null) return 1;
+      if (y === null) return -1;
+      
+      // Names use the fixed collation; ids compare by code unit, as the
+      // database orders uuids
+      const order = key.column === 'name' && typeof x === 'string' && typeof y === 'string'
+        ? nameCollator.compare(x, y)
+        : x < y ? -1 : 1;
+      if (order !== 0) return key.ascending ? order : -order;
+    }
+    
+    return 0;
+  };
+}
+
+function sortValue(row: object, key: SortKey): string | number | null {
+  const value = (row as Record<string, unknown>)[key.column];
+  if (key.rank) return key.rank(value);
+  
+  return typeof value === 'number' || typeof value === 'string' ? value : null;
+}
+
+/**
+ * Applied sort, as reported in result metadata
+ */
+export function describeSort(sort: ResolvedSort): { sort_by: SortBy; order: string[] } {
+  return {
+    sort_by: sort.sortBy,
+    order: sort.keys.map(k => `${k.column} ${k.ascending ? 'asc' : 'desc'}`),
+  };
+}
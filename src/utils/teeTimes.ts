@@ -0,0 +1,193 @@
+/**
+ * Tee-Time Availability
+ * 
+ * Tee sheets live in each course's own booking system and are queried
+ * through a TeeTimeProvider. Until real systems are connected, the bundled
+ * StubTeeTimeProvider serves plausible availability offline: every course
+ * gets a tee sheet with deterministic pseudo-random bookings, which the JSON
+ * file named by TEE_TIMES_FILE can reshape or pin down:
+ * 
+ *   {
+ *     "default": { "first_tee": "07:00", "last_tee": "17:00", "interval_minutes": 10 },
+ *     "courses": {
+ *       "<course uuid>": {
+ *         "first_tee": "08:00",
+ *         "closed_dates": ["2026-12-25"],
+ *         "booked": { "2026-06-01": { "08:00": 4, "08:10": 2 } }
+ *       }
+ *     }
+ *   }
+ * 
+ * Dates listed under `booked` have exactly those bookings.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { logger } from './logger.js';
+
+/**
+ * Tee sheet request
+ */
+export interface TeeTimeQuery {
+  courseId: string;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+/**
+ * One tee time on a course's sheet
+ */
+export interface TeeTimeSlot {
+  /** Local time, HH:MM */
+  time: string;
+  /** Players the tee time holds */
+  capacity: number;
+  /** Places not yet booked */
+  available_players: number;
+  /** Green fee per player when the slot is priced apart from the course rate (e.g. twilight) */
+  green_fee_cents?: number;
+}
+
+/**
+ * Tee time booking request
+ */
+export interface TeeTimeBooking extends TeeTimeQuery {
+  /** HH:MM */
+  time: string;
+  players: number;
+}
+
+/**
+ * Source of tee sheets, one per course booking system integration
+ */
+export interface TeeTimeProvider {
+  /** Name reported with availability results */
+  readonly name: string;
+  /** Tee sheet for a course on a date, in time order; empty when closed */
+  getTeeSheet(query: TeeTimeQuery): Promise<TeeTimeSlot[]>;
+  /** Book places on a tee time, returning the course's booking reference */
+  book(booking: TeeTimeBooking): Promise<{ reference: string }>;
+}
+
+const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const SheetSettingsSchema = z.object({
+  first_tee: TimeSchema.optional(),
+  last_tee: TimeSchema.optional(),
+  interval_minutes: z.number().int().min(5).max(60).optional(),
+  players_per_slot: z.number().int().min(1).max(4).optional(),
+});
+
+const TeeTimesFileSchema = z.object({
+  default: SheetSettingsSchema.default({}),
+  courses: z.record(z.string().uuid(), SheetSettingsSchema.extend({
+    closed_dates: z.array(z.string().date()).default([]),
+    booked: z.record(z.string().date(), z.record(TimeSchema, z.number().int().min(0))).default({}),
+  })).default({}),
+});
+
+type TeeTimesFile = z.infer<typeof TeeTimesFileSchema>;
+
+const DEFAULT_SHEET = {
+  first_tee: '07:00',
+  last_tee: '17:00',
+  interval_minutes: 10,
+  players_per_slot: 4,
+};
+
+/**
+ * Minutes since midnight of an HH:MM time
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Offline tee sheets for development and testing
+ * 
+ * Bookings are kept in memory for the life of the process.
+ */
+export class StubTeeTimeProvider implements TeeTimeProvider {
+  readonly name = 'stub';
+  private readonly file: TeeTimesFile;
+  private readonly bookings = new Map<string, number>();
+  
+  constructor(file?: string) {
+    this.file = file
+      ? TeeTimesFileSchema.parse(JSON.parse(readFileSync(file, 'utf8')))
+      : { default: {}, courses: {} };
+    
+    if (file) {
+      logger.info('Stub tee sheets loaded', { file, courses: Object.keys(this.file.courses).length });
+    }
+  }
+  
+  async getTeeSheet({ courseId, date }: TeeTimeQuery): Promise<TeeTimeSlot[]> {
+    const course = this.file.courses[courseId];
+    if (course?.closed_dates.includes(date)) return [];
+    
+    const settings = { ...DEFAULT_SHEET, ...this.file.default, ...course };
+    const pinned = course?.booked[date];
+    const slots: TeeTimeSlot[] = [];
+    
+    for (
+      let minutes = toMinutes(settings.first_tee);
+      minutes <= toMinutes(settings.last_tee);
+      minutes += settings.interval_minutes
+    ) {
+      const time = fromMinutes(minutes);
+      const booked = (pinned ? pinned[time] ?? 0 : simulatedBookings(courseId, date, time, settings.players_per_slot))
+        + (this.bookings.get(`${courseId}:${date}:${time}`) ?? 0);
+      
+      slots.push({
+        time,
+        capacity: settings.players_per_slot,
+        available_players: Math.max(settings.players_per_slot - booked, 0),
+      });
+    }
+    
+    return slots;
+  }
+  
+  async book({ courseId, date, time, players }: TeeTimeBooking): Promise<{ reference: string }> {
+    const key = `${courseId}:${date}:${time}`;
+    this.bookings.set(key, (this.bookings.get(key) ?? 0) + players);
+    return { reference: `STUB-${randomUUID().slice(0, 8).toUpperCase()}` };
+  }
+}
+
+/**
+ * Stable pseudo-random bookings for a tee time: roughly a third of tee
+ * times full and a third empty
+ */
+function simulatedBookings(courseId: string, date: string, time: string, capacity: number): number {
+  const byte = createHash('sha256').update(`${courseId}:${date}:${time}`).digest()[0];
+  
+  if (byte < 85) return capacity;
+  if (byte < 170) return Math.floor((byte - 85) / (85 / capacity));
+  return 0;
+}
+
+let provider: TeeTimeProvider | null = null;
+
+/**
+ * Provider in use (the stub unless another has been set)
+ */
+export function getTeeTimeProvider(): TeeTimeProvider {
+  provider ??= new StubTeeTimeProvider(env.TEE_TIMES_FILE);
+  return provider;
+}
+
+/**
+ * Swap in a provider, e.g. a course booking system integration
+ */
+export function setTeeTimeProvider(next: TeeTimeProvider): void {
+  provider = next;
+}
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Modules read their configuration on import; tests never reach Supabase
+    env: {
+      NODE_ENV: 'test',
+      LOG_LEVEL: 'error',
+      SUPABASE_URL: 'http://localhost:54321',
+      SUPABASE_SERVICE_KEY: 'test-service-key',
+    },
+  },
+});